@@ -0,0 +1,233 @@
+"use client";
+
+import React from "react";
+import type { ConvexReactClient } from "convex/react";
+import * as Result from "@effect-atom/atom/Result";
+import * as Cause from "effect/Cause";
+import * as Option from "effect/Option";
+import * as ConvexAtom from "@/app/convex-atom";
+
+// Args and values can be large, the panel only shows their start
+const preview = (value: unknown, length = 80) => {
+  let text: string;
+  try {
+    text = JSON.stringify(value, (_, value) => typeof value === "bigint" ? `${value}n` : value) ?? String(value);
+  } catch {
+    text = String(value);
+  }
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+};
+
+const formatTime = (millis: number) => new Date(millis).toLocaleTimeString();
+
+const formatSubscribers = (subscribers: Option.Option<number>) =>
+  Option.match(subscribers, { onNone: () => "?", onSome: String });
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+function ResultCell({ result }: { result: Result.Result<unknown, unknown> }) {
+  const waiting = result.waiting ? " (waiting)" : "";
+  switch (result._tag) {
+    case "Initial":
+      return <span className="text-gray-500">initial{waiting}</span>;
+    case "Failure":
+      return (
+        <span className="text-red-500" title={Cause.pretty(result.cause)}>
+          failure{waiting}
+        </span>
+      );
+    case "Success":
+      return (
+        <span title={preview(result.value, 2000)}>
+          {preview(result.value)}
+          <span className="text-gray-500">{waiting}</span>
+        </span>
+      );
+  }
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="mb-4">
+      <h3 className="font-semibold mb-1">{title}</h3>
+      <div className="overflow-x-auto">{children}</div>
+    </section>
+  );
+}
+
+const cellClass = "px-2 py-1 align-top whitespace-nowrap";
+
+/**
+ * A panel listing the query and mutation atoms of the registry and the
+ * persisted query results of the client, with buttons to invalidate a query
+ * or purge the cache. Render it anywhere within the `RegistryProvider`.
+ */
+export function ConvexAtomDevtools({
+  client,
+  initialIsOpen = false,
+}: {
+  client?: ConvexReactClient;
+  initialIsOpen?: boolean;
+}) {
+  const [isOpen, setIsOpen] = React.useState(initialIsOpen);
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 text-xs font-mono">
+      {isOpen ? (
+        <div className="w-[48rem] max-w-[calc(100vw-2rem)] max-h-[60vh] overflow-y-auto bg-background text-foreground border-2 border-slate-200 dark:border-slate-800 rounded shadow-lg p-3">
+          <div className="flex flex-row justify-between items-center mb-2">
+            <h2 className="text-sm font-bold">Convex atoms</h2>
+            <button className="px-2 hover:underline" onClick={() => setIsOpen(false)}>
+              Close
+            </button>
+          </div>
+          <DevtoolsPanel client={client} />
+        </div>
+      ) : (
+        <button
+          className="bg-slate-800 text-white px-3 py-2 rounded shadow-lg hover:bg-slate-700"
+          onClick={() => setIsOpen(true)}
+        >
+          Convex atoms
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Only mounted while open, so that nothing is polled meanwhile
+function DevtoolsPanel({ client }: { client?: ConvexReactClient }) {
+  const { inspection, cacheEntries, invalidate, purge } = ConvexAtom.useConvexInspection({ client });
+  const multipleClients = new Set(inspection.queries.map((query) => query.client.url)).size > 1;
+
+  return (
+    <>
+      <Section title={`Queries (${inspection.queries.length})`}>
+        <table className="w-full text-left">
+          <thead>
+            <tr className="text-gray-500">
+              <th className={cellClass}>Query</th>
+              <th className={cellClass}>Args</th>
+              <th className={cellClass}>Value</th>
+              <th className={cellClass}>Source</th>
+              <th className={cellClass}>Updated</th>
+              <th className={cellClass}>Subscribers</th>
+              <th className={cellClass}>Key</th>
+              <th className={cellClass} />
+            </tr>
+          </thead>
+          <tbody>
+            {/* Atoms of the same query with other options (e.g. schema or lifetime) share its key */}
+            {inspection.queries.map((query, index) => (
+              <tr key={`${query.client.url}/${query.key}/${index}`} className="border-t border-slate-200 dark:border-slate-800">
+                <td className={cellClass} title={query.client.url}>
+                  {query.functionName}
+                  {multipleClients && <div className="text-gray-500">{query.client.url}</div>}
+                </td>
+                <td className={cellClass}>{preview(query.args)}</td>
+                <td className={cellClass}><ResultCell result={query.result} /></td>
+                <td className={cellClass}>
+                  {Option.match(query.provenance, {
+                    onNone: () => "-",
+                    onSome: ({ source, confirmed }) => confirmed ? source : `${source} (unconfirmed)`,
+                  })}
+                </td>
+                <td className={cellClass}>
+                  {Option.match(query.provenance, {
+                    onNone: () => "-",
+                    onSome: ({ updatedAt }) => formatTime(updatedAt),
+                  })}
+                </td>
+                <td className={cellClass}>
+                  {formatSubscribers(query.subscribers)} {query.subscribed ? "(watching)" : "(not watching)"}
+                </td>
+                <td className={cellClass}>
+                  {query.key}
+                  {!query.persisted && <span className="text-gray-500"> (not persisted)</span>}
+                </td>
+                <td className={cellClass}>
+                  <button className="text-blue-500 hover:underline" onClick={() => invalidate(query)}>
+                    Invalidate
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Section>
+
+      <Section title={`Mutations (${inspection.mutations.length})`}>
+        <table className="w-full text-left">
+          <thead>
+            <tr className="text-gray-500">
+              <th className={cellClass}>Mutation</th>
+              <th className={cellClass}>Mode</th>
+              <th className={cellClass}>Last args</th>
+              <th className={cellClass}>Result</th>
+              <th className={cellClass}>Subscribers</th>
+            </tr>
+          </thead>
+          <tbody>
+            {inspection.mutations.map((mutation, index) => (
+              <tr
+                key={`${mutation.client.url}/${mutation.functionName}/${mutation.mode}/${index}`}
+                className="border-t border-slate-200 dark:border-slate-800"
+              >
+                <td className={cellClass} title={mutation.client.url}>{mutation.functionName}</td>
+                <td className={cellClass}>{mutation.mode}</td>
+                <td className={cellClass}>
+                  {Option.match(mutation.lastArgs, { onNone: () => "-", onSome: (args) => preview(args) })}
+                </td>
+                <td className={cellClass}><ResultCell result={mutation.result} /></td>
+                <td className={cellClass}>{formatSubscribers(mutation.subscribers)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Section>
+
+      <Section title="Persisted results">
+        <div className="flex flex-row gap-2 mb-1">
+          <button className="text-blue-500 hover:underline" onClick={() => purge("expired")}>
+            Purge expired
+          </button>
+          <button className="text-red-500 hover:underline" onClick={() => purge("all")}>
+            Purge all
+          </button>
+        </div>
+        {Result.match(cacheEntries, {
+          onInitial: () => <div className="text-gray-500">Loading...</div>,
+          onFailure: (failure) => <div className="text-red-500">{Cause.pretty(failure.cause)}</div>,
+          onSuccess: ({ value: entries }) => entries.length === 0 ? (
+            <div className="text-gray-500">Nothing persisted</div>
+          ) : (
+            <table className="w-full text-left">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className={cellClass}>Key</th>
+                  <th className={cellClass}>Size</th>
+                  <th className={cellClass}>Stored</th>
+                  <th className={cellClass}>Last used</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.key} className="border-t border-slate-200 dark:border-slate-800">
+                    <td className={cellClass}>
+                      {entry.key}
+                      {entry.stale && <span className="text-gray-500"> (stale)</span>}
+                    </td>
+                    <td className={cellClass}>{formatBytes(entry.bytes)}</td>
+                    <td className={cellClass}>{formatTime(entry.storedAt)}</td>
+                    <td className={cellClass}>{formatTime(entry.accessedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ),
+        })}
+      </Section>
+    </>
+  );
+}
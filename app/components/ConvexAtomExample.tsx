@@ -3,82 +3,65 @@
 import React from "react";
 import { ConvexProvider, ConvexReactClient } from "convex/react";
 import { RegistryProvider } from "@effect-atom/atom-react";
-import { useQuery } from "../convex-atom";
+import { useEffectQuerySuspense } from "../convex-atom";
 import { api } from "../../convex/_generated/api";
-import * as Result from "@effect-atom/atom/Result";
+import * as Option from "effect/Option";
+import { ListNumbersExit } from "../../convex/schemas";
 
 const convexClient = new ConvexReactClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
 
 function NumbersList() {
-  const queryResult = useQuery(
+  // Suspends until the first value, failures go to the error boundary
+  const result = useEffectQuerySuspense(
     api.myFunctions.listNumbers,
-    { count: 10 }
+    { count: 10 },
+    { schema: ListNumbersExit }
   );
 
   return (
-    <div className="p-4">
-      {Result.match(queryResult, {
-        onInitial: () => (
-          <div className="text-gray-500">Loading numbers...</div>
-        ),
-        onFailure: (error) => (
-          <div className="text-red-500">
-            Error: {error.cause._tag === 'Fail' && error.cause.error && typeof error.cause.error === 'object' && 'message' in error.cause.error
-              ? String(error.cause.error.message)
-              : 'Unknown error'}
-          </div>
-        ),
-        onSuccess: (data) => {
-          // Since the Convex function returns an Exit encoded value,
-          // we need to handle that structure
-          const exitData = data.value;
-
-          // Check if it's a success Exit
-          if (exitData && typeof exitData === 'object' && '_tag' in exitData) {
-            if (exitData._tag === 'Success') {
-              const result = (exitData as any).value;
-              return (
-                <div>
-                  <h3 className="text-lg font-semibold mb-2">Numbers List</h3>
-                  {result.viewer && (
-                    <p className="text-sm text-gray-600 mb-2">
-                      Viewer: {result.viewer._tag === 'Some' ? result.viewer.value : 'Anonymous'}
-                    </p>
-                  )}
-                  <ul className="space-y-1">
-                    {result.numbers && result.numbers.length > 0 ? (
-                      result.numbers.map((num: number, index: number) => (
-                        <li key={index} className="p-2 bg-gray-100 rounded">
-                          {num}
-                        </li>
-                      ))
-                    ) : (
-                      <li className="text-gray-500">No numbers yet</li>
-                    )}
-                  </ul>
-                </div>
-              );
-            } else {
-              return (
-                <div className="text-red-500">
-                  Query failed with Exit.Failure
-                </div>
-              );
-            }
-          }
-
-          // Fallback for unexpected data structure
-          return (
-            <div className="text-gray-500">
-              Received unexpected data structure
-            </div>
-          );
-        }
-      })}
+    <div>
+      <h3 className="text-lg font-semibold mb-2">Numbers List</h3>
+      <p className="text-sm text-gray-600 mb-2">
+        Viewer: {Option.getOrElse(result.viewer, () => 'Anonymous')}
+      </p>
+      <ul className="space-y-1">
+        {result.numbers.length > 0 ? (
+          result.numbers.map((num, index) => (
+            <li key={index} className="p-2 bg-gray-100 rounded">
+              {num}
+            </li>
+          ))
+        ) : (
+          <li className="text-gray-500">No numbers yet</li>
+        )}
+      </ul>
     </div>
   );
 }
 
+class NumbersErrorBoundary extends React.Component<
+  { children: React.ReactNode },
+  { error: unknown }
+> {
+  state = { error: undefined as unknown };
+
+  static getDerivedStateFromError(error: unknown) {
+    return { error };
+  }
+
+  render() {
+    const { error } = this.state;
+    if (error === undefined) {
+      return this.props.children;
+    }
+    return (
+      <div className="text-red-500">
+        Error: {error instanceof Error ? error.message : 'Unknown error'}
+      </div>
+    );
+  }
+}
+
 export function ConvexAtomExample() {
   return (
     <ConvexProvider client={convexClient}>
@@ -87,9 +70,15 @@ export function ConvexAtomExample() {
           <h1 className="text-2xl font-bold mb-6">
             Convex + Effect Atom Integration Example
           </h1>
-          <NumbersList />
+          <div className="p-4">
+            <NumbersErrorBoundary>
+              <React.Suspense fallback={<div className="text-gray-500">Loading numbers...</div>}>
+                <NumbersList />
+              </React.Suspense>
+            </NumbersErrorBoundary>
+          </div>
         </div>
       </RegistryProvider>
     </ConvexProvider>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,736 @@
+import { Atom } from "@effect-atom/atom";
+import * as Result from "@effect-atom/atom/Result";
+import * as Effect from "effect/Effect";
+import * as Exit from "effect/Exit";
+import * as Cause from "effect/Cause";
+import * as Metric from "effect/Metric";
+import * as Option from "effect/Option";
+import * as Schedule from "effect/Schedule";
+import * as Schema from "effect/Schema";
+import * as KeyValueStore from "@effect/platform/KeyValueStore";
+import { BaseConvexClient } from "convex/browser";
+import { ConvexReactClient } from "convex/react";
+import { makeFunctionReference, type PaginationOptions, type PaginationResult } from "convex/server";
+import { ConvexError } from "convex/values";
+import { describe, expect, it } from "vitest";
+import * as ConvexAtom from "./convex-atom";
+import * as QueryCache from "./query-cache";
+import * as Telemetry from "./telemetry";
+import { FakeConvexClient, awaitResult, flush, makeMemoryStorage, makeRegistry, waitFor } from "./test-kit";
+
+const listNumbers = makeFunctionReference<"query", { count: number }, ReadonlyArray<number>>("numbers:list");
+const viewer = makeFunctionReference<"query", Record<string, never>, string>("users:viewer");
+const pageNumbers = makeFunctionReference<"query", { paginationOpts: PaginationOptions }, PaginationResult<number>>(
+  "numbers:page"
+);
+const addNumber = makeFunctionReference<"mutation", { value: number }, null>("numbers:add");
+
+const failureOf = <A, E>(exit: Exit.Exit<A, E>) =>
+  Exit.isFailure(exit) ? Cause.squash(exit.cause) : undefined;
+
+describe("syncClient", () => {
+  // Query results are versioned with its server snapshot timestamp, read
+  // through an internal of the installed convex version
+  it("reaches the sync client of a ConvexReactClient until it is closed", () => {
+    class NeverOpenWebSocket {
+      readyState = 0;
+      close() { }
+      send() { }
+    }
+    const client = new ConvexReactClient("https://happy-otter-123.convex.cloud", {
+      webSocketConstructor: NeverOpenWebSocket as unknown as typeof WebSocket,
+      unsavedChangesWarning: false
+    });
+
+    const sync = ConvexAtom.syncClient(client);
+    expect(Option.getOrUndefined(sync)).toBeInstanceOf(BaseConvexClient);
+    expect(Option.map(sync, (sync) => sync.getMaxObservedTimestamp())).toEqual(Option.some(undefined));
+
+    // The socket never opens, so closing it never completes
+    void client.close();
+    expect(ConvexAtom.syncClient(client)).toEqual(Option.none());
+  });
+});
+
+describe("convexQueryFamily", () => {
+  it("is initial until Convex has a result, then follows its updates", async () => {
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry();
+    const atom = ConvexAtom.convexQueryFamily(
+      ConvexAtom.makeQueryParams({ client: fake.client, query: listNumbers, args: { count: 10 } })
+    );
+    registry.mount(atom);
+    await flush();
+
+    expect(Result.isInitial(registry.get(atom))).toBe(true);
+
+    fake.setQueryResult(listNumbers, { count: 10 }, [1, 2]);
+    expect(await awaitResult(registry, atom)).toEqual(Exit.succeed([1, 2]));
+
+    fake.setQueryResult(listNumbers, { count: 10 }, [1, 2, 3]);
+    await flush();
+    expect(await awaitResult(registry, atom)).toEqual(Exit.succeed([1, 2, 3]));
+  });
+
+  it("shares one subscription between equal params and releases it once unmounted", async () => {
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry();
+    const params = () => ConvexAtom.makeQueryParams({
+      client: fake.client,
+      query: listNumbers,
+      args: { count: 10 },
+      lifetime: "immediate"
+    });
+    const unmountFirst = registry.mount(ConvexAtom.convexQueryFamily(params()));
+    const unmountSecond = registry.mount(ConvexAtom.convexQueryFamily(params()));
+    await flush();
+
+    expect(fake.subscriberCount(listNumbers, { count: 10 })).toBe(1);
+
+    unmountFirst();
+    unmountSecond();
+    await flush();
+
+    expect(fake.subscriberCount(listNumbers, { count: 10 })).toBe(0);
+  });
+
+  it("classifies the errors queries fail with", async () => {
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry();
+    const failWith = async (error: unknown) => {
+      const count = Math.random();
+      const atom = ConvexAtom.convexQueryFamily(
+        ConvexAtom.makeQueryParams({ client: fake.client, query: listNumbers, args: { count } })
+      );
+      registry.mount(atom);
+      await flush();
+      fake.failQuery(listNumbers, { count }, error);
+      return failureOf(await awaitResult(registry, atom));
+    };
+
+    const application = await failWith(new ConvexError({ code: "NotFound" }));
+    expect(application).toBeInstanceOf(ConvexAtom.ConvexApplicationError);
+    expect(application).toMatchObject({ data: { code: "NotFound" } });
+
+    expect(await failWith(new Error("[Request ID: 1] Server Error: Unauthenticated")))
+      .toBeInstanceOf(ConvexAtom.ConvexAuthError);
+    expect(await failWith(new Error("Something went wrong"))).toBeInstanceOf(ConvexAtom.ConvexServerError);
+  });
+
+  it("decodes results with the schema, failing with the ParseError", async () => {
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry();
+    const atom = ConvexAtom.convexQueryFamily(ConvexAtom.makeQueryParams({
+      client: fake.client,
+      query: viewer,
+      schema: Schema.NumberFromString
+    }));
+    registry.mount(atom);
+    await flush();
+
+    fake.setQueryResult(viewer, {}, "42");
+    expect(await awaitResult(registry, atom)).toEqual(Exit.succeed(42));
+
+    fake.setQueryResult(viewer, {}, "forty-two");
+    await flush();
+    expect(failureOf(await awaitResult(registry, atom))).toMatchObject({ _tag: "ParseError" });
+  });
+
+  it("is waiting while disconnected with waitingWhileDisconnected", async () => {
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry();
+    const atom = ConvexAtom.convexQueryFamily(ConvexAtom.makeQueryParams({
+      client: fake.client,
+      query: viewer,
+      waitingWhileDisconnected: true
+    }));
+    registry.mount(atom);
+    fake.setQueryResult(viewer, {}, "ada");
+    await awaitResult(registry, atom);
+
+    fake.disconnect();
+    expect(registry.get(atom).waiting).toBe(true);
+    expect(registry.get(ConvexAtom.convexConnectionFamily(fake.client)).status).toBe("reconnecting");
+
+    fake.reconnect();
+    expect(registry.get(atom).waiting).toBe(false);
+  });
+});
+
+describe("persisted query results", () => {
+  // A tab is a registry of its own, sharing storage with the other tabs
+  it("shows results persisted by another tab until Convex confirms them", async () => {
+    const storage = makeMemoryStorage();
+    const fake = new FakeConvexClient();
+    const params = ConvexAtom.makeQueryParams({ client: fake.client, query: listNumbers, args: { count: 10 } });
+    const atom = ConvexAtom.convexQueryFamily(params);
+
+    const first = makeRegistry({ storage });
+    first.mount(atom);
+    fake.setQueryResult(listNumbers, { count: 10 }, [1, 2]);
+    await awaitResult(first, atom);
+    await flush();
+
+    fake.disconnect();
+    fake.forget(listNumbers, { count: 10 });
+    const second = makeRegistry({ storage });
+    const provenance = ConvexAtom.convexQueryProvenanceFamily(params);
+    second.mount(atom);
+    second.mount(provenance);
+
+    const cached = await waitFor(second, atom, Result.isSuccess);
+    expect(cached.value).toEqual([1, 2]);
+    expect(cached.waiting).toBe(true);
+    expect(Option.map(second.get(provenance), ({ source }) => source)).toEqual(Option.some("cache"));
+
+    fake.reconnect();
+    fake.setQueryResult(listNumbers, { count: 10 }, [1, 2, 3]);
+    await flush();
+    expect(await awaitResult(second, atom)).toEqual(Exit.succeed([1, 2, 3]));
+  });
+
+  it("shows a preloaded value to the first subscription only, then the persisted result", async () => {
+    const fake = new FakeConvexClient();
+    const params = ConvexAtom.makeQueryParams({ client: fake.client, query: listNumbers, args: { count: 10 } });
+    const atom = ConvexAtom.convexQueryFamily(params);
+    const provenance = ConvexAtom.convexQueryProvenanceFamily(params);
+    const registry = makeRegistry({
+      storage: makeMemoryStorage(),
+      initialValues: [ConvexAtom.preloadedQueryValue(params, [1])],
+      defaultIdleTTL: 20
+    });
+
+    const unmountAtom = registry.mount(atom);
+    const unmountProvenance = registry.mount(provenance);
+    expect(Result.getOrThrow(registry.get(atom))).toEqual([1]);
+    fake.setQueryResult(listNumbers, { count: 10 }, [1, 2]);
+    await waitFor(registry, atom, (result) => Result.isSuccess(result) && !result.waiting);
+    await flush();
+
+    unmountAtom();
+    unmountProvenance();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    fake.disconnect();
+    fake.forget(listNumbers, { count: 10 });
+    registry.mount(atom);
+
+    const cached = await waitFor(registry, atom, Result.isSuccess);
+    expect(cached.value).toEqual([1, 2]);
+    expect(Option.map(registry.get(provenance), ({ source }) => source)).toEqual(Option.some("cache"));
+  });
+
+  it("doesn't persist queries that opt out", async () => {
+    const storage = makeMemoryStorage();
+    const fake = new FakeConvexClient();
+    const atom = ConvexAtom.convexQueryFamily(ConvexAtom.makeQueryParams({
+      client: fake.client,
+      query: listNumbers,
+      args: { count: 10 },
+      persist: false
+    }));
+
+    const first = makeRegistry({ storage });
+    first.mount(atom);
+    fake.setQueryResult(listNumbers, { count: 10 }, [1, 2]);
+    await awaitResult(first, atom);
+    await flush();
+
+    fake.forget(listNumbers, { count: 10 });
+    const second = makeRegistry({ storage });
+    second.mount(atom);
+    await flush();
+
+    expect(Result.isInitial(second.get(atom))).toBe(true);
+  });
+});
+
+describe("convexAuthFamily", () => {
+  it("purges the persisted results of an identity once it signs out, not when fetching a token fails", async () => {
+    const storage = makeMemoryStorage();
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry({ storage });
+    const config = ConvexAtom.convexAuthConfigFamily(fake.client);
+    const auth = ConvexAtom.convexAuthFamily(fake.client);
+    const signIn = (fetchToken: ConvexAtom.AuthConfig["fetchToken"]) => registry.set(config, Option.some({ fetchToken }));
+    const claims = btoa(JSON.stringify({ sub: "ada" })).replace(/=+$/, "");
+
+    signIn(() => Effect.succeed(Option.some(`e30.${claims}.signature`)));
+    await waitFor(registry, auth, (state) => state._tag === "Authenticated");
+
+    // One entry the index lost track of, which only a scan finds
+    const policy = QueryCache.makeQueryCachePolicy(`${fake.client.url}/ada`);
+    const stored = (key: string) => QueryCache.make(policy).pipe(
+      Effect.flatMap((cache) => cache.get(key)),
+      Effect.provide(storage),
+      Effect.runPromise
+    );
+    await QueryCache.make(policy).pipe(
+      Effect.tap((cache) => cache.set("unindexed", "[1]")),
+      Effect.zipRight(KeyValueStore.KeyValueStore.pipe(Effect.flatMap((kv) => kv.remove(`@convex-atom/${policy.namespace}/#index`)))),
+      Effect.flatMap(() => QueryCache.make(policy)),
+      Effect.tap((cache) => cache.set("numbers", "[1,2]")),
+      Effect.provide(storage),
+      Effect.runPromise
+    );
+
+    signIn(() => Effect.fail("offline"));
+    await waitFor(registry, auth, (state) => state._tag === "Anonymous");
+    await flush();
+    expect(await stored("numbers")).toEqual(Option.some("[1,2]"));
+
+    signIn(() => Effect.succeed(Option.none()));
+    await waitFor(registry, auth, (state) => state._tag === "Anonymous");
+    await flush();
+    expect(await stored("numbers")).toEqual(Option.none());
+    expect(await stored("unindexed")).toEqual(Option.none());
+  });
+});
+
+describe("convexQueriesFamily", () => {
+  it("only emits once every query has a result, once per transition", async () => {
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry();
+    const atom = ConvexAtom.convexQueriesFamily(ConvexAtom.makeQueriesParams({
+      client: fake.client,
+      queries: {
+        numbers: { query: listNumbers, args: { count: 10 } },
+        viewer: { query: viewer, args: {} }
+      }
+    }));
+    const emissions: Array<unknown> = [];
+    registry.subscribe(atom, (result) => {
+      if (Result.isSuccess(result)) {
+        emissions.push(result.value);
+      }
+    }, { immediate: true });
+    await flush();
+
+    fake.setQueryResult(listNumbers, { count: 10 }, [1]);
+    await flush();
+    expect(emissions).toEqual([]);
+
+    fake.setQueryResult(viewer, {}, "ada");
+    await flush();
+    fake.transition(() => {
+      fake.setQueryResult(listNumbers, { count: 10 }, [1, 2]);
+      fake.setQueryResult(viewer, {}, "grace");
+    });
+    await flush();
+
+    expect(emissions).toEqual([
+      { numbers: [1], viewer: "ada" },
+      { numbers: [1, 2], viewer: "grace" }
+    ]);
+  });
+
+  it("shares one atom between records listing the same queries in another order", () => {
+    const fake = new FakeConvexClient();
+    const numbers = { query: listNumbers, args: { count: 10 } };
+    const viewerQuery = { query: viewer, args: {} };
+
+    expect(ConvexAtom.convexQueriesFamily(ConvexAtom.makeQueriesParams({
+      client: fake.client,
+      queries: { numbers, viewer: viewerQuery }
+    }))).toBe(ConvexAtom.convexQueriesFamily(ConvexAtom.makeQueriesParams({
+      client: fake.client,
+      queries: { viewer: viewerQuery, numbers }
+    })));
+  });
+});
+
+describe("convexReactiveQuery", () => {
+  it("subscribes with the args derived from other atoms, and not at all when skipped", async () => {
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry();
+    const count = Atom.make<number | undefined>(undefined);
+    const atom = ConvexAtom.convexReactiveQuery({
+      client: fake.client,
+      query: listNumbers,
+      args: (get) => {
+        const value = get(count);
+        return value === undefined ? "skip" : { count: value };
+      }
+    });
+    registry.mount(atom);
+    await flush();
+
+    expect(Result.isInitial(registry.get(atom))).toBe(true);
+    expect(fake.subscriberCount(listNumbers, { count: 5 })).toBe(0);
+
+    registry.set(count, 5);
+    fake.setQueryResult(listNumbers, { count: 5 }, [1, 2, 3, 4, 5]);
+    expect(await awaitResult(registry, atom)).toEqual(Exit.succeed([1, 2, 3, 4, 5]));
+  });
+});
+
+describe("convexPaginatedQueryFamily", () => {
+  it("splits a page in two once Convex recommends it", async () => {
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry();
+    const params = ConvexAtom.makePaginatedQueryParams({
+      client: fake.client,
+      query: pageNumbers,
+      initialNumItems: 2,
+      lifetime: "immediate"
+    });
+    const atom = ConvexAtom.convexPaginatedQueryFamily(params);
+    registry.mount(atom);
+
+    const page = { numItems: 2, cursor: null };
+    const [first, second] = [{ ...page, endCursor: "3" }, { numItems: 2, cursor: "3", endCursor: "5" }];
+    fake.setQueryResult(pageNumbers, { paginationOpts: page }, {
+      page: [1, 2, 3, 4, 5],
+      isDone: true,
+      continueCursor: "5",
+      splitCursor: "3",
+      pageStatus: "SplitRecommended"
+    });
+    await flush();
+    expect(Result.getOrThrow(registry.get(atom))).toEqual({ results: [1, 2, 3, 4, 5], status: "Exhausted" });
+    expect(fake.subscriberCount(pageNumbers, { paginationOpts: first })).toBe(1);
+    expect(fake.subscriberCount(pageNumbers, { paginationOpts: second })).toBe(1);
+
+    fake.setQueryResult(pageNumbers, { paginationOpts: first }, { page: [1, 2, 3], isDone: false, continueCursor: "3" });
+    fake.setQueryResult(pageNumbers, { paginationOpts: second }, { page: [4, 5], isDone: true, continueCursor: "5" });
+    await flush();
+
+    expect(fake.subscriberCount(pageNumbers, { paginationOpts: page })).toBe(0);
+    expect(Result.getOrThrow(registry.get(atom))).toEqual({ results: [1, 2, 3, 4, 5], status: "Exhausted" });
+  });
+});
+
+describe("convexMutationFamily", () => {
+  it("succeeds with the mutation's result and fails with its classified error", async () => {
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry();
+    const atom = ConvexAtom.convexMutationFamily(ConvexAtom.makeMutationParams({ client: fake.client, mutation: addNumber }));
+    registry.mount(atom);
+
+    registry.set(atom, { value: 1 });
+    await flush();
+    expect(fake.nextCall(addNumber).args).toEqual({ value: 1 });
+    fake.nextCall(addNumber).resolve(null);
+    expect(await awaitResult(registry, atom)).toEqual(Exit.succeed(null));
+
+    registry.set(atom, { value: 2 });
+    await flush();
+    fake.nextCall(addNumber).reject(new ConvexError("Too many numbers"));
+    expect(failureOf(await awaitResult(registry, atom))).toBeInstanceOf(ConvexAtom.ConvexApplicationError);
+  });
+
+  it("retries the errors selected by retryWhile with the retry schedule", async () => {
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry();
+    let attempts = 0;
+    fake.handle(addNumber, () => {
+      attempts++;
+      if (attempts < 3) {
+        throw new ConvexError({ code: "Contended" });
+      }
+      return null;
+    });
+    const retry = Schedule.recurs(2);
+    const retried = ConvexAtom.convexMutationFamily(ConvexAtom.makeMutationParams({
+      client: fake.client,
+      mutation: addNumber,
+      retry,
+      retryWhile: (error) => error._tag === "ConvexApplicationError"
+    }));
+    registry.mount(retried);
+
+    registry.set(retried, { value: 1 });
+    expect(await awaitResult(registry, retried)).toEqual(Exit.succeed(null));
+    expect(attempts).toBe(3);
+
+    // Only transport errors are retried by default
+    attempts = 0;
+    const notRetried = ConvexAtom.convexMutationFamily(ConvexAtom.makeMutationParams({
+      client: fake.client,
+      mutation: addNumber,
+      retry
+    }));
+    registry.mount(notRetried);
+
+    registry.set(notRetried, { value: 1 });
+    expect(failureOf(await awaitResult(registry, notRetried))).toBeInstanceOf(ConvexAtom.ConvexApplicationError);
+    expect(attempts).toBe(1);
+  });
+
+  it("fails with ConvexTimeoutError once the timeout is up", async () => {
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry();
+    const atom = ConvexAtom.convexMutationFamily(ConvexAtom.makeMutationParams({
+      client: fake.client,
+      mutation: addNumber,
+      timeout: "20 millis"
+    }));
+    registry.mount(atom);
+
+    registry.set(atom, { value: 1 });
+    expect(failureOf(await awaitResult(registry, atom))).toBeInstanceOf(ConvexAtom.ConvexTimeoutError);
+  });
+
+  it("sends one call at a time in queue mode", async () => {
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry();
+    const atom = ConvexAtom.convexMutationFamily(ConvexAtom.makeMutationParams({
+      client: fake.client,
+      mutation: addNumber,
+      concurrency: "queue"
+    }));
+    registry.mount(atom);
+
+    registry.set(atom, { value: 1 });
+    registry.set(atom, { value: 2 });
+    await flush();
+    expect(fake.pendingCalls.map((call) => call.args)).toEqual([{ value: 1 }]);
+
+    fake.nextCall().resolve(null);
+    await flush();
+    expect(fake.pendingCalls.map((call) => call.args)).toEqual([{ value: 2 }]);
+    fake.nextCall().resolve(null);
+  });
+
+  it("sends every call in parallel mode, settling earlier callers with the latest outcome", async () => {
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry();
+    const atom = ConvexAtom.convexMutationFamily(ConvexAtom.makeMutationParams({
+      client: fake.client,
+      mutation: addNumber,
+      concurrency: "parallel"
+    }));
+    registry.mount(atom);
+
+    registry.set(atom, { value: 1 });
+    const first = awaitResult(registry, atom);
+    registry.set(atom, { value: 2 });
+    await flush();
+    expect(fake.pendingCalls.map((call) => call.args)).toEqual([{ value: 1 }, { value: 2 }]);
+
+    fake.nextCall().resolve("first");
+    fake.nextCall().resolve("second");
+    expect(await first).toEqual(Exit.succeed("second"));
+  });
+
+  it("shows optimistic updates until the mutation settles", async () => {
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry();
+    const query = ConvexAtom.convexQueryFamily(
+      ConvexAtom.makeQueryParams({ client: fake.client, query: listNumbers, args: { count: 10 } })
+    );
+    const mutation = ConvexAtom.convexMutationFamily(ConvexAtom.makeMutationParams({
+      client: fake.client,
+      mutation: addNumber,
+      optimisticUpdate: (args, store) =>
+        store.update(listNumbers, { count: 10 }, (numbers) => [...numbers, args.value])
+    }));
+    registry.mount(query);
+    registry.mount(mutation);
+    fake.setQueryResult(listNumbers, { count: 10 }, [1]);
+    await awaitResult(registry, query);
+
+    registry.set(mutation, { value: 2 });
+    await flush();
+    expect(await awaitResult(registry, query)).toEqual(Exit.succeed([1, 2]));
+
+    fake.nextCall(addNumber).reject(new ConvexError("Too many numbers"));
+    await flush();
+    expect(await awaitResult(registry, query)).toEqual(Exit.succeed([1]));
+  });
+});
+
+describe("convexQueuedMutationFamily", () => {
+  it("keeps calls made while offline and sends them once connected", async () => {
+    const fake = new FakeConvexClient({ connected: false });
+    const registry = makeRegistry({ storage: makeMemoryStorage() });
+    const sent: Array<unknown> = [];
+    fake.handle(addNumber, (args) => {
+      sent.push(args);
+      return null;
+    });
+    const queue = ConvexAtom.convexMutationQueueFamily(fake.client);
+    const enqueue = ConvexAtom.convexQueuedMutationFamily(
+      ConvexAtom.makeMutationParams({ client: fake.client, mutation: addNumber })
+    );
+    registry.mount(queue);
+    registry.mount(enqueue);
+
+    registry.set(enqueue, { args: { value: 1 }, idempotencyKey: "one" });
+    registry.set(enqueue, { args: { value: 1 }, idempotencyKey: "one" });
+    const pending = await waitFor(registry, queue, (result) => Result.isSuccess(result) && result.value.length > 0);
+    expect(Result.getOrThrow(pending).map((entry) => entry.id)).toEqual(["one"]);
+    expect(sent).toEqual([]);
+
+    fake.reconnect();
+    await waitFor(registry, queue, (result) => Result.isSuccess(result) && result.value.length === 0);
+    expect(sent).toEqual([{ value: 1 }]);
+  });
+
+  it("holds up the calls after a failed one until it is discarded", async () => {
+    const fake = new FakeConvexClient({ connected: false });
+    const registry = makeRegistry({ storage: makeMemoryStorage() });
+    const sent: Array<unknown> = [];
+    fake.handle(addNumber, (args) => {
+      if (args.value === -1) {
+        throw new ConvexError("Negative numbers aren't allowed");
+      }
+      sent.push(args);
+      return null;
+    });
+    const queue = ConvexAtom.convexMutationQueueFamily(fake.client);
+    const enqueue = ConvexAtom.convexQueuedMutationFamily(
+      ConvexAtom.makeMutationParams({ client: fake.client, mutation: addNumber })
+    );
+    const discard = ConvexAtom.convexDiscardQueuedMutationFamily(fake.client);
+    registry.mount(queue);
+    registry.mount(enqueue);
+    registry.mount(discard);
+
+    registry.set(enqueue, { args: { value: -1 }, idempotencyKey: "negative" });
+    await waitFor(registry, queue, (result) => Result.isSuccess(result) && result.value.length === 1);
+    registry.set(enqueue, { args: { value: 1 }, idempotencyKey: "positive" });
+    await waitFor(registry, queue, (result) => Result.isSuccess(result) && result.value.length === 2);
+
+    fake.reconnect();
+    const failed = await waitFor(registry, queue, (result) => Result.isSuccess(result) && result.value[0].status === "failed");
+    expect(Result.getOrThrow(failed).map((entry) => entry.id)).toEqual(["negative", "positive"]);
+    expect(sent).toEqual([]);
+
+    registry.set(discard, "negative");
+    await waitFor(registry, queue, (result) => Result.isSuccess(result) && result.value.length === 0);
+    expect(sent).toEqual([{ value: 1 }]);
+  });
+
+  it("fails with ConvexCacheError without a storage backend", async () => {
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry();
+    const enqueue = ConvexAtom.convexQueuedMutationFamily(
+      ConvexAtom.makeMutationParams({ client: fake.client, mutation: addNumber })
+    );
+    registry.mount(enqueue);
+
+    registry.set(enqueue, { args: { value: 1 } });
+    const exit = await awaitResult(registry, enqueue);
+    expect(failureOf(exit)).toMatchObject({
+      _tag: "ConvexCacheError",
+      message: "The mutation queue needs a storage backend, see storageLayerAtom"
+    });
+  });
+});
+
+describe("inspectRegistry", () => {
+  it("lists the query and mutation atoms of the registry with their state", async () => {
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry();
+    const query = ConvexAtom.convexQueryFamily(
+      ConvexAtom.makeQueryParams({ client: fake.client, query: listNumbers, args: { count: 10 } })
+    );
+    const mutation = ConvexAtom.convexMutationFamily(ConvexAtom.makeMutationParams({ client: fake.client, mutation: addNumber }));
+    registry.mount(query);
+    registry.mount(query);
+    registry.mount(mutation);
+    fake.setQueryResult(listNumbers, { count: 10 }, [1, 2]);
+    await awaitResult(registry, query);
+    registry.set(mutation, { value: 3 });
+    await flush();
+
+    const { queries, mutations } = ConvexAtom.inspectRegistry(registry);
+    expect(queries).toHaveLength(1);
+    expect(queries[0]).toMatchObject({
+      functionName: "numbers:list",
+      args: { count: 10 },
+      key: 'numbers:list{"count":10}',
+      persisted: true,
+      subscribed: true,
+      subscribers: Option.some(2)
+    });
+    expect(Result.getOrThrow(queries[0].result)).toEqual([1, 2]);
+    expect(Option.map(queries[0].provenance, ({ source }) => source)).toEqual(Option.some("server"));
+
+    expect(mutations).toHaveLength(1);
+    expect(mutations[0]).toMatchObject({ functionName: "numbers:add", mode: "switch", lastArgs: Option.some({ value: 3 }) });
+    fake.nextCall(addNumber).resolve(null);
+  });
+
+  it("invalidates a query's persisted result, starting over from Convex", async () => {
+    const fake = new FakeConvexClient();
+    const registry = makeRegistry({ storage: makeMemoryStorage() });
+    const query = ConvexAtom.convexQueryFamily(
+      ConvexAtom.makeQueryParams({ client: fake.client, query: listNumbers, args: { count: 10 } })
+    );
+    const entries = ConvexAtom.convexQueryCacheEntriesFamily(fake.client);
+    registry.mount(query);
+    registry.mount(entries);
+    fake.setQueryResult(listNumbers, { count: 10 }, [1, 2]);
+    await awaitResult(registry, query);
+    await flush();
+    registry.refresh(entries);
+
+    const persisted = await waitFor(registry, entries, (result) => Result.isSuccess(result) && result.value.length > 0);
+    expect(Result.getOrThrow(persisted).map(({ key }) => key)).toEqual(['numbers:list{"count":10}']);
+
+    // Otherwise the rebuilt subscription starts from the client's result, and persists it again
+    fake.forget(listNumbers, { count: 10 });
+    const [inspected] = ConvexAtom.inspectRegistry(registry).queries;
+    registry.set(ConvexAtom.convexInvalidateQueryAtom, inspected);
+    await waitFor(registry, entries, (result) => Result.isSuccess(result) && result.value.length === 0);
+
+    fake.setQueryResult(listNumbers, { count: 10 }, [1, 2, 3]);
+    await flush();
+    expect(await awaitResult(registry, query)).toEqual(Exit.succeed([1, 2, 3]));
+  });
+});
+
+describe("telemetry", () => {
+  // Metrics are global, so these tests use functions of their own
+  const tracedNumbers = makeFunctionReference<"query", { count: number }, ReadonlyArray<number>>("telemetry:list");
+  const tracedAdd = makeFunctionReference<"mutation", { value: number }, null>("telemetry:add");
+  const metricValue = <Type, In, State>(metric: Metric.Metric<Type, In, State>, functionName: string) =>
+    Effect.runSync(Metric.value(Metric.tagged(metric, "function", functionName)));
+
+  it("traces query subscriptions and their updates, and counts them", async () => {
+    const fake = new FakeConvexClient();
+    const exporter = Telemetry.makeMemoryExporter();
+    const registry = makeRegistry({ initialValues: [[ConvexAtom.telemetryLayerAtom, Option.some(exporter.layer)]] });
+    const atom = ConvexAtom.convexQueryFamily(ConvexAtom.makeQueryParams({
+      client: fake.client,
+      query: tracedNumbers,
+      args: { count: 10 },
+      lifetime: "immediate"
+    }));
+    const unmount = registry.mount(atom);
+    fake.setQueryResult(tracedNumbers, { count: 10 }, [1, 2]);
+    await awaitResult(registry, atom);
+    await flush();
+
+    expect(metricValue(Telemetry.activeSubscriptions, "telemetry:list").count).toBe(1);
+    expect(metricValue(Telemetry.queryUpdates, "telemetry:list").count).toBe(1);
+
+    const spans = Effect.runSync(exporter.spans);
+    const subscribe = spans.find(({ name }) => name === "convexQuery.subscribe");
+    const update = spans.find(({ name }) => name === "convexQuery.update");
+    expect(subscribe?.attributes).toMatchObject({ "convex.function": "telemetry:list", "convex.source": "server" });
+    expect(update?.parentSpanId).toEqual(Option.some(subscribe?.spanId));
+
+    unmount();
+    await flush();
+    expect(metricValue(Telemetry.activeSubscriptions, "telemetry:list").count).toBe(0);
+  });
+
+  it("traces mutation calls and records their duration", async () => {
+    const fake = new FakeConvexClient();
+    const exporter = Telemetry.makeMemoryExporter();
+    const registry = makeRegistry({ initialValues: [[ConvexAtom.telemetryLayerAtom, Option.some(exporter.layer)]] });
+    const atom = ConvexAtom.convexMutationFamily(ConvexAtom.makeMutationParams({ client: fake.client, mutation: tracedAdd }));
+    fake.handle(tracedAdd, () => null);
+    registry.mount(atom);
+
+    registry.set(atom, { value: 1 });
+    await awaitResult(registry, atom);
+
+    const spans = Effect.runSync(exporter.spans);
+    expect(spans.find(({ name }) => name === "convexMutation.call")?.attributes)
+      .toEqual({ "convex.function": "telemetry:add" });
+    expect(metricValue(Telemetry.mutationDuration, "telemetry:add").count).toBe(1);
+  });
+});
@@ -5,33 +5,212 @@ import * as Stream from "effect/Stream";
 import * as Hash from "effect/Hash"
 import * as Equal from "effect/Equal"
 import * as Result from "@effect-atom/atom/Result";
+import type * as Registry from "@effect-atom/atom/Registry";
 import * as Data from "effect/Data";
-import { ConvexReactClient, useConvex } from "convex/react";
-import { type FunctionReference, type FunctionReturnType, type FunctionArgs, getFunctionName } from "convex/server";
-import { useAtom, useAtomValue } from "@effect-atom/atom-react";
+import {
+  ConvexReactClient,
+  useConvex,
+  type Preloaded,
+  type PaginatedQueryArgs,
+  type PaginatedQueryItem,
+  type PaginatedQueryReference,
+  type PaginationStatus,
+  type Watch
+} from "convex/react";
+import { BaseConvexClient, type ConnectionState, type OptimisticLocalStore } from "convex/browser";
+import { ConvexError as ConvexValuesError, convexToJson, jsonToConvex, type JSONValue, type Value } from "convex/values";
+import {
+  type FunctionReference,
+  type FunctionReturnType,
+  type FunctionArgs,
+  type OptionalRestArgs,
+  type PaginationResult,
+  getFunctionName,
+  makeFunctionReference
+} from "convex/server";
+import { useAtom, useAtomInitialValues, useAtomMount, useAtomSet, useAtomSuspense, useAtomValue } from "@effect-atom/atom-react";
 import { EmitOpsPush } from "effect/StreamEmit";
-import * as KeyValueStore from "@effect/platform/KeyValueStore"
 import * as Option from "effect/Option";
+import * as Context from "effect/Context";
 import * as Layer from "effect/Layer"
+import * as Either from "effect/Either";
+import * as Exit from "effect/Exit";
+import * as Cause from "effect/Cause";
+import * as Deferred from "effect/Deferred";
+import * as Fiber from "effect/Fiber";
+import * as FiberId from "effect/FiberId";
+import * as Schedule from "effect/Schedule";
+import * as Duration from "effect/Duration";
+import * as Encoding from "effect/Encoding";
+import * as Metric from "effect/Metric";
+import type * as Predicate from "effect/Predicate";
+import * as Runtime from "effect/Runtime";
+import * as Schema from "effect/Schema";
+import type * as Tracer from "effect/Tracer";
+import type { ParseError } from "effect/ParseResult";
+import type * as KeyValueStore from "@effect/platform/KeyValueStore";
 import React from "react";
 import * as SubscribeableStorage from "./subscribeable-storage";
+import * as QueryCache from "./query-cache";
+import * as MutationQueue from "./mutation-queue";
+import * as TabCoordinator from "./tab-coordinator";
+import * as Telemetry from "./telemetry";
 
 /**
- * Error type for Convex-related failures
+ * The Convex backend could not be reached, or the connection dropped while a
+ * request was in flight
  * @since 0.1.0
  * @category Errors
  */
-export class ConvexError extends Data.TaggedError("ConvexError")<{
+export class ConvexTransportError extends Data.TaggedError("ConvexTransportError")<{
   message: string;
+  functionName: string;
   cause?: unknown;
 }> { }
 
+/**
+ * The function threw a `ConvexError` from `convex/values`; its `data` payload
+ * is preserved as sent by the server
+ * @since 0.1.0
+ * @category Errors
+ */
+export class ConvexApplicationError extends Data.TaggedError("ConvexApplicationError")<{
+  message: string;
+  functionName: string;
+  data: Value;
+  cause?: unknown;
+}> { }
+
+/**
+ * The arguments did not match the function's argument validators
+ * @since 0.1.0
+ * @category Errors
+ */
+export class ConvexArgumentValidationError extends Data.TaggedError("ConvexArgumentValidationError")<{
+  message: string;
+  functionName: string;
+  cause?: unknown;
+}> { }
+
+/**
+ * The request was rejected because the client is not (or no longer) authenticated
+ * @since 0.1.0
+ * @category Errors
+ */
+export class ConvexAuthError extends Data.TaggedError("ConvexAuthError")<{
+  message: string;
+  functionName: string;
+  cause?: unknown;
+}> { }
+
+/**
+ * The function failed on the server with an uncaught error
+ * @since 0.1.0
+ * @category Errors
+ */
+export class ConvexServerError extends Data.TaggedError("ConvexServerError")<{
+  message: string;
+  functionName: string;
+  cause?: unknown;
+}> { }
+
+/**
+ * A persisted query result could not be read, decoded or written locally
+ * @since 0.1.0
+ * @category Errors
+ */
+export class ConvexCacheError extends Data.TaggedError("ConvexCacheError")<{
+  message: string;
+  key: string;
+  cause?: unknown;
+}> { }
+
+/**
+ * A mutation did not settle within its timeout. The mutation may still be
+ * applied by the server, Convex can't cancel it once sent.
+ * @since 0.1.0
+ * @category Errors
+ */
+export class ConvexTimeoutError extends Data.TaggedError("ConvexTimeoutError")<{
+  message: string;
+  functionName: string;
+  timeout: Duration.Duration;
+}> { }
+
+/**
+ * Every failure produced by the Convex atoms
+ * @since 0.1.0
+ * @category Errors
+ */
+export type ConvexError =
+  | ConvexTransportError
+  | ConvexApplicationError
+  | ConvexArgumentValidationError
+  | ConvexAuthError
+  | ConvexServerError
+  | ConvexCacheError
+  | ConvexTimeoutError;
+
+const authErrorPattern = /Unauthenticated|Unauthorized|InvalidAuthHeader|No auth provider|OIDC token/i;
+const transportErrorPattern = /Connection lost|WebSocket|Failed to fetch|NetworkError/i;
+
+/**
+ * Classifies an error thrown by the Convex client for a function call.
+ * The Convex client only exposes the server's message for most failures, so
+ * everything but application errors is recognised by its message.
+ * @internal
+ */
+const fromClientError = (functionName: string) => (error: unknown): ConvexError => {
+  if (error instanceof ConvexValuesError) {
+    return new ConvexApplicationError({ message: error.message, functionName, data: error.data, cause: error });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.includes("ArgumentValidationError")) {
+    return new ConvexArgumentValidationError({ message, functionName, cause: error });
+  }
+  if (authErrorPattern.test(message)) {
+    return new ConvexAuthError({ message, functionName, cause: error });
+  }
+  if (transportErrorPattern.test(message)) {
+    return new ConvexTransportError({ message, functionName, cause: error });
+  }
+  return new ConvexServerError({ message, functionName, cause: error });
+};
+
 /**
  * Check if we're in a browser environment
  * @internal
  */
 const isBrowser = () => typeof window !== "undefined" && typeof window.sessionStorage !== "undefined";
 
+/**
+ * How long a query atom, and with it its Convex subscription and storage
+ * listeners, lives once nothing reads it: `"keepAlive"` for the life of the
+ * registry, `"immediate"` to unsubscribe as soon as it is unmounted, or an
+ * idle TTL.
+ *
+ * Queries without a lifetime use the registry's `defaultIdleTTL` (see
+ * `RegistryProvider`), the global default.
+ *
+ * @since 0.1.0
+ * @category Models
+ */
+export type QueryLifetime = "keepAlive" | "immediate" | Duration.DurationInput;
+
+const decodeLifetime = (lifetime: QueryLifetime | undefined): Duration.Duration | undefined =>
+  lifetime === undefined ? undefined :
+    lifetime === "keepAlive" ? Duration.infinity :
+      lifetime === "immediate" ? Duration.zero :
+        Duration.decode(lifetime);
+
+/**
+ * Applies a decoded lifetime to an atom, leaving it to the registry default when absent.
+ * @internal
+ */
+const withLifetime = (lifetime: Duration.Duration | undefined) =>
+  <T extends Atom.Atom<unknown>>(atom: T): T =>
+    lifetime === undefined ? atom : Atom.setIdleTTL(atom, lifetime);
+
 /**
  * @since 0.1.0
  * @category Symbols
@@ -56,11 +235,19 @@ export const isQueryParams = <Query extends FunctionReference<"query">>(u: unkno
  * @since 0.1.0
  * @category Models
  */
-interface QueryParams<Query extends FunctionReference<"query">> extends Hash.Hash, Equal.Equal {
+interface QueryParams<
+  Query extends FunctionReference<"query">,
+  A = FunctionReturnType<Query>,
+  I = A
+> extends Hash.Hash, Equal.Equal {
   readonly [QueryParamsTypeId]: QueryParamsTypeId;
   readonly client: ConvexReactClient;
   readonly query: Query;
   readonly args: FunctionArgs<Query>;
+  readonly schema: Schema.Schema<A, I> | undefined;
+  readonly lifetime: Duration.Duration | undefined;
+  readonly waitingWhileDisconnected: boolean;
+  readonly persist: boolean | undefined;
 }
 
 const QueryParamsProto = {
@@ -70,6 +257,7 @@ const QueryParamsProto = {
     this: QueryParams<Query>
   ): number {
     return Hash.cached(this, Hash.array([
+      this.client.url,
       getFunctionName(this.query),
       Hash.structure(this.args)
     ]));
@@ -79,281 +267,3381 @@ const QueryParamsProto = {
     this: QueryParams<Query>,
     that: unknown
   ): boolean {
+    // Clients are compared by deployment URL, schemas by reference
     return (
       isQueryParams(that) &&
-      getFunctionName(this.query) === getFunctionName(that.query)) &&
-      Equal.equals(this.args, that.args)
+      this.client.url === that.client.url &&
+      getFunctionName(this.query) === getFunctionName(that.query) &&
+      Equal.equals(this.args, that.args) &&
+      this.schema === that.schema &&
+      Equal.equals(this.lifetime, that.lifetime) &&
+      this.waitingWhileDisconnected === that.waitingWhileDisconnected &&
+      this.persist === that.persist
+    );
   }
 };
 
-const makeQueryParams = <Query extends FunctionReference<"query">>({
+/**
+ * Creates the params of `convexQueryFamily` and the other query families,
+ * equal for equal options
+ * @since 0.1.0
+ * @category Constructors
+ */
+export const makeQueryParams = <Query extends FunctionReference<"query">, A = FunctionReturnType<Query>, I = A>({
   client,
   query,
   args,
+  schema,
+  lifetime,
+  waitingWhileDisconnected,
+  persist,
 }: {
   readonly client: ConvexReactClient;
   readonly query: Query;
   readonly args?: FunctionArgs<Query>;
-}): QueryParams<Query> =>
-  Object.assign(Object.create(QueryParamsProto), { client, query, args: Data.struct(args ?? {}) });
+  readonly schema?: Schema.Schema<A, I>;
+  readonly lifetime?: QueryLifetime;
+  readonly waitingWhileDisconnected?: boolean;
+  readonly persist?: boolean;
+}): QueryParams<Query, A, I> =>
+  Object.assign(Object.create(QueryParamsProto), {
+    client,
+    query,
+    args: Data.struct(args ?? {}),
+    schema,
+    lifetime: decodeLifetime(lifetime),
+    waitingWhileDisconnected: waitingWhileDisconnected ?? false,
+    persist
+  });
+
+/**
+ * Decodes a raw Convex (or cached) value through the query's schema, if any.
+ * @internal
+ */
+const decodeQueryResult = <Query extends FunctionReference<"query">, A, I>(
+  params: QueryParams<Query, A, I>
+): (value: unknown) => Either.Either<A, ParseError> =>
+  params.schema === undefined
+    ? (value) => Either.right(value as A)
+    : Schema.decodeUnknownEither(params.schema);
 
 
 /**
- * Atom family for Convex queries.
- * Creates reactive atoms that automatically update when Convex data changes.
- *
- * @since 0.1.0
- * @category Atoms
+ * Identifies a query and its args within a deployment.
+ * @internal
  */
-export const convexQueryFamily = Atom.family(
-  <Query extends FunctionReference<"query">>(
-    params: QueryParams<Query>
-  ) => {
-    return Atom.make(
-      Stream.asyncPush<FunctionReturnType<Query>, ConvexError>(
-        (emit: EmitOpsPush<ConvexError, FunctionReturnType<Query>>) =>
-          Effect.acquireRelease(
-            Effect.gen(function* () {
-              const kv = yield* Effect.serviceOption(KeyValueStore.KeyValueStore);
-              const broadcast = yield* Effect.serviceOption(SubscribeableStorage.StorageBroadcast);
-              const subscription = yield* Effect.serviceOption(SubscribeableStorage.StorageSubscription);
+const queryKey = <Query extends FunctionReference<"query">, A, I>(params: QueryParams<Query, A, I>) =>
+  getFunctionName(params.query) + JSON.stringify(params.args);
 
-              const kvKey = getFunctionName(params.query) + JSON.stringify(params.args);
-              const watch = params.client.watchQuery(params.query, params.args);
+// The getter `ConvexReactClient` lazily creates its sync client with, internal
+// to convex
+const syncGetter = Object.getOwnPropertyDescriptor(ConvexReactClient.prototype, "sync")?.get;
 
-              let unsubscribeStorage = () => { };
-              let unsubscribeBroadcast = () => { };
+/**
+ * The sync client behind a `ConvexReactClient`, whose server snapshot
+ * timestamp `ConvexReactClient` doesn't expose. Reads the client's internal
+ * `sync` getter, which the tests check against the installed convex version
+ * so that an upgrade dropping it doesn't go unnoticed. `None` for other
+ * clients (e.g. fakes) and once the client is closed.
+ * @internal
+ */
+export const syncClient = (client: ConvexReactClient): Option.Option<BaseConvexClient> => {
+  if (syncGetter === undefined || !(client instanceof ConvexReactClient)) {
+    return Option.none();
+  }
+  try {
+    const sync: unknown = syncGetter.call(client);
+    return sync instanceof BaseConvexClient ? Option.some(sync) : Option.none();
+  } catch {
+    // The getter throws once the client is closed
+    return Option.none();
+  }
+};
 
-              const listener = (value: string) => Effect.try(() => emit.single(JSON.parse(value)))
-                .pipe(
-                  Effect.catchAll((err) => Effect.sync(() =>
-                    emit.fail(new ConvexError({
-                      message: `Failed to parse stored value for key ${kvKey}`,
-                      cause: err
-                    }))
-                  ))
-                )
+/**
+ * The version of the client's current query results, in milliseconds: the
+ * timestamp of the server snapshot it has caught up to, so that results from
+ * tabs that are behind never overwrite newer ones. Without a sync client (or
+ * before the first snapshot) results are unversioned and not ordered. The
+ * clocks of tabs can't stand in for it, they aren't comparable with the server's.
+ * @internal
+ */
+const snapshotVersion = (client: ConvexReactClient): number | undefined =>
+  syncClient(client).pipe(
+    Option.flatMapNullable((sync) => sync.getMaxObservedTimestamp()),
+    // Convex timestamps are 64-bit nanoseconds
+    Option.map(({ high, low }) => (high * 2 ** 32 + (low >>> 0)) / 1_000_000),
+    Option.getOrUndefined
+  );
 
-              // Set up subscriptions (if available)
-              if (Option.isSome(subscription)) {
-                unsubscribeStorage = yield* subscription.value.subscribe(kvKey, listener);
-              }
+const preloadKey = <Query extends FunctionReference<"query">, A, I>(params: QueryParams<Query, A, I>) =>
+  `${params.client.url}/${queryKey(params)}`;
 
-              if (Option.isSome(broadcast)) {
-                unsubscribeBroadcast = yield* broadcast.value.subscribe(kvKey, listener);
-              }
+/**
+ * Values fetched on the server with `preloadQuery`, in their encoded (wire)
+ * form, keyed by deployment URL and `queryKey`. Seeded by `usePreloadedQuery`,
+ * and cleared once the query's first subscription ends.
+ * @internal
+ */
+const preloadedValueFamily = Atom.family(
+  (key: string) => Atom.make(Option.none<unknown>()).pipe(Atom.keepAlive, Atom.withLabel(`preloaded:${key}`))
+);
 
-              // Initial load: try localQueryResult first, then cached value
-              try {
-                const initial = watch.localQueryResult();
-                if (initial !== undefined) {
-                  emit.single(initial);
-                  // Store in KV and broadcast to other tabs
-                  if (Option.isSome(kv)) {
-                    yield* kv.value.set(kvKey, JSON.stringify(initial));
-                  }
-                  if (Option.isSome(broadcast)) {
-                    yield* broadcast.value.post(kvKey, JSON.stringify(initial));
-                  }
-                } else {
-                  // No initial result from watch, check cached value
-                  yield* Effect.transposeMapOption(kv, store => store.get(kvKey))
-                    .pipe(
-                      Effect.map(Option.flatten),
-                      Effect.map(Option.match({
-                        onSome: v => emit.single(JSON.parse(v)),
-                        onNone: () => { }
-                      }))
-                    );
-                }
-              } catch (error) {
-                emit.fail(new ConvexError({
-                  message: `Query ${getFunctionName(params.query)} failed`,
-                  cause: error
-                }));
-              }
+/**
+ * A registry initial value seeding a query with its value preloaded on the
+ * server, in its encoded (wire) form, for registries built outside of
+ * `usePreloadedQuery` (which seeds it itself).
+ *
+ * @since 0.1.0
+ * @category Utils
+ */
+export const preloadedQueryValue = <Query extends FunctionReference<"query">, A, I>(
+  params: QueryParams<Query, A, I>,
+  value: unknown
+): readonly [Atom.Writable<Option.Option<unknown>>, Option.Option<unknown>] =>
+  [preloadedValueFamily(preloadKey(params)), Option.some(value)];
 
-              // Set up Convex subscription - updates KV and broadcasts
-              const unsubscribe = watch.onUpdate(
-                () => {
-                  try {
-                    const result = watch.localQueryResult();
-                    if (result !== undefined) {
-                      const value = JSON.stringify(result);
+/**
+ * Overrides for the persisted query cache policy, read by every query atom.
+ * Entries are always namespaced by the client's deployment URL; set this
+ * through the registry (e.g. `RegistryProvider`'s
+ * `initialValues`) before queries mount.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const queryCacheOptionsAtom = Atom.make<QueryCache.QueryCacheOptions>({}).pipe(Atom.keepAlive);
 
-                      if (Option.isSome(kv)) {
-                        kv.value.set(kvKey, value).pipe(Effect.runSync);
-                      }
+/**
+ * Where query results and the mutation queue are persisted, and how tabs
+ * share them: localStorage by default in the browser, `None` to persist
+ * nothing. Supply another backend through the registry, e.g.
+ * `<RegistryProvider initialValues={[[storageLayerAtom, Option.some(layerIndexedDb())]]}>`,
+ * before any query atom reads it. Wrap the backend with `layerEncrypted` to
+ * keep sensitive results encrypted at rest.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const storageLayerAtom = Atom.writable(
+  (): Option.Option<SubscribeableStorage.StorageLayer> =>
+    isBrowser() ? Option.some(SubscribeableStorage.layerLocalStorage) : Option.none(),
+  (ctx, layer: Option.Option<SubscribeableStorage.StorageLayer>) => ctx.setSelf(layer)
+).pipe(Atom.keepAlive);
 
-                      if (Option.isSome(broadcast)) {
-                        broadcast.value.post(kvKey, value).pipe(Effect.runSync);
-                      }
-                    }
-                  } catch (error) {
-                    emit.fail(new ConvexError({
-                      message: `Query ${getFunctionName(params.query)} failed during update`,
-                      cause: error
-                    }));
-                  }
-                });
+/**
+ * The storage services of the registry, built once from `storageLayerAtom`
+ * so that every atom shares one backend. `None` when persistence is disabled.
+ * @internal
+ */
+const storageContextAtom = Atom.make((get) => Option.match(get(storageLayerAtom), {
+  onNone: () => Effect.succeedNone,
+  onSome: (layer) => Effect.asSome(Layer.build(layer))
+})).pipe(Atom.keepAlive);
 
-              // Return cleanup function
-              return () => {
-                unsubscribe();
-                unsubscribeStorage();
-                unsubscribeBroadcast();
-              };
-            }).pipe(
-              Effect.provide(isBrowser() ? SubscribeableStorage.layerLocalStorage : Layer.empty),
-              Effect.mapError(error => new ConvexError({
-                message: `Stream failed`,
-                cause: error
-              }))
-            ),
-            // Cleanup: unsubscribe when stream is terminated
-            (cleanup) => Effect.sync(cleanup)
-          ),
-        {
-          bufferSize: 2,
-          strategy: "sliding"
-        }
-      )
-    ).pipe(
-      Atom.keepAlive,
+type StorageContext = Option.Option<Context.Context<KeyValueStore.KeyValueStore>>;
 
-    )
+/**
+ * Where the spans of query subscriptions, mutation calls and the query cache
+ * go: a layer installing a tracer, e.g. `Telemetry.layerConsoleExporter()`,
+ * the layer of `Telemetry.makeMemoryExporter()` or a tracing backend's.
+ * `None` by default, which keeps Effect's tracer and exports nothing. Supply
+ * it through the registry before any query atom reads it, like `storageLayerAtom`.
+ * Metrics are recorded either way, see `Telemetry.snapshotMetrics`.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const telemetryLayerAtom = Atom.make(Option.none<Layer.Layer<never>>()).pipe(Atom.keepAlive);
 
-  }
+/**
+ * The tracer installed by `telemetryLayerAtom`, built once for the registry.
+ * @internal
+ */
+const tracerAtom = Atom.make((get) => Option.match(get(telemetryLayerAtom), {
+  onNone: () => Effect.succeedNone,
+  onSome: (layer) => Layer.build(layer).pipe(Effect.zipRight(Effect.tracer), Effect.asSome)
+})).pipe(Atom.keepAlive);
 
-);
+const withTracer = (tracer: Option.Option<Tracer.Tracer>) => <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+  Option.match(tracer, {
+    onNone: () => effect,
+    onSome: (tracer) => Effect.withTracer(effect, tracer)
+  });
+
+/**
+ * Runs the effect of a function atom with the tracer of `telemetryLayerAtom`.
+ * @internal
+ */
+const traced = <A, E, R>(get: Atom.FnContext, effect: Effect.Effect<A, E, R>) =>
+  get.result(tracerAtom).pipe(Effect.flatMap((tracer) => withTracer(tracer)(effect)));
 
+/**
+ * The persisted query cache for a client and signed-in identity (`None` for
+ * anonymous results), absent without storage.
+ * @internal
+ */
+const queryCacheLayer = (
+  storage: StorageContext,
+  client: ConvexReactClient,
+  options: QueryCache.QueryCacheOptions,
+  identity: Option.Option<string>
+) =>
+  Option.match(storage, {
+    onNone: () => Layer.empty,
+    onSome: (storage) => QueryCache.layer(QueryCache.makeQueryCachePolicy(
+      Option.match(identity, { onNone: () => client.url, onSome: (identity) => `${client.url}/${identity}` }),
+      options
+    )).pipe(
+      Layer.provide(Layer.succeedContext(storage))
+    )
+  });
 
 /**
+ * Authentication state of a Convex client
  * @since 0.1.0
- * @category Symbols
+ * @category Models
  */
-export const MutationParamsTypeId: unique symbol = Symbol.for("@convex-atom/MutationParams");
-export type MutationParamsTypeId = typeof MutationParamsTypeId;
+export type AuthState = Data.TaggedEnum<{
+  Loading: Record<never, never>;
+  Authenticated: { readonly identity: string };
+  Anonymous: Record<never, never>;
+}>;
 
 /**
- * Type guard to check if a value is MutationParams
  * @since 0.1.0
- * @category Predicates
+ * @category Models
  */
-export const isMutationParams = <Mutation extends FunctionReference<"mutation">>(u: unknown): u is MutationParams<Mutation> =>
-  u !== null &&
-  typeof u === "object" &&
-  MutationParamsTypeId in u;
+export const AuthState = Data.taggedEnum<AuthState>();
 
 /**
- * Mutation parameters for Convex mutation atoms
+ * How a client authenticates with Convex.
+ * `fetchToken` returns the JWT for the current user, or `None` once signed out.
+ * A failure is logged and leaves the client unauthenticated until a token is
+ * fetched again, but isn't a sign out: nothing persisted is purged.
  * @since 0.1.0
  * @category Models
  */
-interface MutationParams<Mutation extends FunctionReference<"mutation">> {
-  readonly [MutationParamsTypeId]: MutationParamsTypeId;
-  readonly client: ConvexReactClient;
-  readonly mutation: Mutation;
-  readonly [Hash.symbol]: () => number;
-  readonly [Equal.symbol]: (that: unknown) => boolean;
+export interface AuthConfig {
+  readonly fetchToken: (options: { readonly forceRefreshToken: boolean }) => Effect.Effect<Option.Option<string>, unknown>;
 }
 
-const MutationParamsProto = {
-  [MutationParamsTypeId]: MutationParamsTypeId,
-
-  [Hash.symbol]<Mutation extends FunctionReference<"mutation">>(
-    this: MutationParams<Mutation>
-  ): number {
-    // Only hash the mutation name, not the client
-    return Hash.cached(this, Hash.string(getFunctionName(this.mutation)));
-  },
+const TokenClaims = Schema.parseJson(Schema.Struct({
+  iss: Schema.optional(Schema.String),
+  sub: Schema.String
+}));
 
-  [Equal.symbol]<Mutation extends FunctionReference<"mutation">>(
-    this: MutationParams<Mutation>,
-    that: unknown
-  ): boolean {
-    // Only compare mutation names, not clients
-    return (
-      isMutationParams(that) &&
-      getFunctionName(this.mutation) === getFunctionName(that.mutation)
-    );
-  }
-};
+const decodeTokenClaims = Schema.decodeUnknownOption(TokenClaims);
 
-const makeMutationParams = <Mutation extends FunctionReference<"mutation">>({
-  client,
-  mutation,
-}: {
-  readonly client: ConvexReactClient;
-  readonly mutation: Mutation;
-}): MutationParams<Mutation> =>
-  Object.assign(Object.create(MutationParamsProto), { client, mutation });
+/**
+ * Identifies the user behind a token, to keep persisted results apart per user.
+ * The claims are read without verification, they only partition local storage.
+ * @internal
+ */
+const tokenIdentity = (token: string): string =>
+  Option.fromNullable(token.split(".")[1]).pipe(
+    Option.flatMap((payload) => Option.getRight(Encoding.decodeBase64UrlString(payload))),
+    Option.flatMap(decodeTokenClaims),
+    Option.match({
+      onNone: () => Hash.string(token).toString(36),
+      onSome: (claims) => claims.iss === undefined ? claims.sub : `${claims.iss}|${claims.sub}`
+    })
+  );
 
 /**
- * Atom family for Convex mutations.
- * Creates effectful function atoms that execute mutations.
+ * Atom family holding the auth configuration of a client, `None` (the
+ * default) for anonymous use. Writing `None` signs out.
  *
  * @since 0.1.0
  * @category Atoms
  */
-export const convexMutationFamily = Atom.family(
-  <Mutation extends FunctionReference<"mutation">>(
-    params: MutationParams<Mutation>
-  ) => Atom.fn(
-    Effect.fn(function* (args: FunctionArgs<Mutation>) {
-      return yield* Effect.tryPromise({
-        try: () => params.client.mutation(params.mutation, args),
-        catch: (error) => new ConvexError({
-          message: `Mutation ${getFunctionName(params.mutation)} failed`,
-          cause: error
-        })
-      });
-    })
-  )
+export const convexAuthConfigFamily = Atom.family(
+  (client: ConvexReactClient) =>
+    Atom.make(Option.none<AuthConfig>()).pipe(Atom.keepAlive, Atom.withLabel(`authConfig:${client.url}`))
 );
 
 /**
- * React hook for Convex queries with automatic reactivity.
- * Returns a Result type that handles loading, success, and error states.
- *
- * @since 0.1.0
- * @category Hooks
+ * Calls `setAuth` on the client with the configured token fetcher and follows
+ * the resulting state.
  *
- * @param query - The Convex query function reference
- * @param args - Optional arguments for the query
+ * Whenever the signed-in identity goes away (an explicit sign out, or another
+ * user signing in) its persisted query results are purged and the other tabs
+ * are told, so they sign out as well. Failing to fetch a token is no sign out.
+ * @internal
  */
-export const useQuery = <Query extends FunctionReference<"query">>(
-  query: Query,
-  args?: FunctionArgs<Query>
-): Result.Result<FunctionReturnType<Query>, ConvexError> => {
+const authStateFamily = Atom.family((client: ConvexReactClient) => {
+  // Outlives reconfigurations, so that replacing the token fetcher doesn't purge anything
+  let signedIn = Option.none<string>();
+  // The previous configuration is released after the next one called `setAuth`
+  let generation = 0;
 
-  const client = useConvex();
+  return Atom.make((get) => {
+    const config = get(convexAuthConfigFamily(client));
+    const cacheOptions = get.once(queryCacheOptionsAtom);
+    // Read once: switching backends must not sign the client out
+    const storage = Result.getOrElse(get.once(storageContextAtom), (): StorageContext => Option.none());
 
-  const params = makeQueryParams({ client, query, args });
-  const atom = React.useMemo(() => convexQueryFamily(params), [params]);
+    return Stream.asyncPush<AuthState>(
+      (emit: EmitOpsPush<never, AuthState>) =>
+        Effect.acquireRelease(
+          Effect.gen(function* () {
+            const broadcast = yield* Effect.serviceOption(SubscribeableStorage.StorageBroadcast);
+            const signOutKey = `@convex-atom/signOut/${client.url}`;
 
-  return useAtomValue(atom);
-};
+            const purge = (identity: string) => Effect.gen(function* () {
+              const cache = yield* Effect.serviceOption(QueryCache.QueryCache);
+              if (Option.isSome(cache)) {
+                yield* cache.value.purge;
+              }
+            }).pipe(
+              Effect.provide(queryCacheLayer(storage, client, cacheOptions, Option.some(identity))),
+              Effect.catchAll((error) => Effect.logWarning(`Failed to purge the query cache of ${identity}`, error))
+            );
+
+            // Anonymous states only sign the identity out when they are explicit
+            const update = (next: AuthState, signedOut = false) => {
+              if (next._tag !== "Loading") {
+                const identity = next._tag === "Authenticated" ? Option.some(next.identity) : Option.none<string>();
+                if (Option.isSome(identity) || signedOut) {
+                  if (Option.isSome(signedIn) && !Equal.equals(identity, signedIn)) {
+                    purge(signedIn.value).pipe(Effect.runFork);
+                    if (Option.isSome(broadcast)) {
+                      broadcast.value.post(signOutKey, signedIn.value).pipe(Effect.runFork);
+                    }
+                  }
+                  signedIn = identity;
+                }
+              }
+              emit.single(next);
+            };
+
+            // Another tab signed this identity out and already purged its results
+            const unsubscribeBroadcast = Option.isSome(broadcast)
+              ? yield* broadcast.value.subscribe(signOutKey, (identity) => Effect.sync(() => {
+                if (Option.isSome(signedIn) && signedIn.value === identity) {
+                  signedIn = Option.none();
+                  client.clearAuth();
+                  emit.single(AuthState.Anonymous());
+                }
+              }))
+              : () => { };
+
+            if (Option.isNone(config)) {
+              update(AuthState.Anonymous(), true);
+              return unsubscribeBroadcast;
+            }
+
+            update(AuthState.Loading());
+
+            const current = ++generation;
+            let fetchedIdentity = Option.none<string>();
+            // Whether the last fetch returned no token, rather than failing
+            let signedOut = false;
+            client.setAuth(
+              (options) => config.value.fetchToken(options).pipe(
+                Effect.tap((token) => {
+                  fetchedIdentity = Option.map(token, tokenIdentity);
+                  signedOut = Option.isNone(token);
+                }),
+                Effect.map(Option.getOrNull),
+                Effect.catchAll((error) => {
+                  fetchedIdentity = Option.none();
+                  signedOut = false;
+                  return Effect.as(Effect.logWarning("Failed to fetch a Convex auth token", error), null);
+                }),
+                Effect.runPromise
+              ),
+              (isAuthenticated) => isAuthenticated && Option.isSome(fetchedIdentity)
+                ? update(AuthState.Authenticated({ identity: fetchedIdentity.value }))
+                : update(AuthState.Anonymous(), signedOut)
+            );
 
+            return () => {
+              unsubscribeBroadcast();
+              if (generation === current) {
+                client.clearAuth();
+              }
+            };
+          }).pipe(
+            Effect.provide(Option.getOrElse(storage, () => Context.empty()))
+          ),
+          (cleanup) => Effect.sync(cleanup)
+        )
+    );
+  }).pipe(Atom.keepAlive);
+});
 
 /**
- * React hook for Convex mutations.
+ * Atom family for the authentication state of a client.
+ * Configure how the client authenticates with `convexAuthConfigFamily` (or
+ * `useAuth`); without a configuration the client is `Anonymous`.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexAuthFamily = Atom.family(
+  (client: ConvexReactClient): Atom.Atom<AuthState> =>
+    Atom.make((get) => Result.getOrElse(get(authStateFamily(client)), () => AuthState.Loading()))
+);
+
+/**
+ * The identity query results are scoped to: `None` until the auth state is
+ * first known, then the signed-in identity, if any. Keeps the last scope while
+ * a token is being refreshed, so queries don't resubscribe for nothing.
+ * @internal
+ */
+const authScopeFamily = Atom.family(
+  (client: ConvexReactClient): Atom.Atom<Option.Option<Option.Option<string>>> =>
+    Atom.make((get) => AuthState.$match(get(convexAuthFamily(client)), {
+      Loading: () => Option.flatten(get.self<Option.Option<Option.Option<string>>>()),
+      Authenticated: ({ identity }) => Option.some(Option.some(identity)),
+      Anonymous: () => Option.some(Option.none())
+    }))
+);
+
+/**
+ * Connection status of a Convex client's websocket.
+ * `reconnecting` means the client had connected before and lost the
+ * connection; time since the last message is `Date.now()` minus
+ * `lastMessageAt`, tracked at a one second resolution.
+ * @since 0.1.0
+ * @category Models
+ */
+export interface ConnectionStatus {
+  readonly status: "connecting" | "connected" | "reconnecting";
+  readonly lastMessageAt: Option.Option<Date>;
+  readonly inflightRequests: number;
+  readonly oldestInflightRequestAt: Option.Option<Date>;
+  readonly connectionCount: number;
+  readonly connectionRetries: number;
+}
+
+const activityListeners = new WeakMap<ConvexReactClient, Set<() => void>>();
+
+/**
+ * Convex does not report when it last heard from the server, so query atoms
+ * report every update they receive.
+ * @internal
+ */
+const onActivity = (client: ConvexReactClient, listener: () => void) => {
+  const listeners = activityListeners.get(client) ?? new Set();
+  activityListeners.set(client, listeners);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notifyActivity = (client: ConvexReactClient) =>
+  activityListeners.get(client)?.forEach((listener) => listener());
+
+/**
+ * Atom family for the connection status of a client, for offline banners
+ * and the like.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexConnectionFamily = Atom.family(
+  (client: ConvexReactClient): Atom.Atom<ConnectionStatus> =>
+    Atom.make((get) => {
+      let lastMessageAt = Option.none<Date>();
+
+      const toStatus = (state: ConnectionState): ConnectionStatus => ({
+        status: state.isWebSocketConnected ? "connected" : state.hasEverConnected ? "reconnecting" : "connecting",
+        lastMessageAt,
+        inflightRequests: state.inflightMutations + state.inflightActions,
+        oldestInflightRequestAt: Option.fromNullable(state.timeOfOldestInflightRequest),
+        connectionCount: state.connectionCount,
+        connectionRetries: state.connectionRetries
+      });
+
+      const unsubscribeState = client.subscribeToConnectionState((state) => {
+        if (state.isWebSocketConnected) {
+          lastMessageAt = Option.some(new Date());
+        }
+        get.setSelf(toStatus(state));
+      });
+
+      const unsubscribeActivity = onActivity(client, () => {
+        const now = Date.now();
+        if (Option.isNone(lastMessageAt) || now - lastMessageAt.value.getTime() >= 1000) {
+          lastMessageAt = Option.some(new Date(now));
+          get.setSelf(toStatus(client.connectionState()));
+        }
+      });
+
+      get.addFinalizer(() => {
+        unsubscribeState();
+        unsubscribeActivity();
+      });
+
+      return toStatus(client.connectionState());
+    })
+);
+
+/**
+ * Where the current value of a query atom came from: its own live Convex
+ * subscription, the live subscription of the leader tab (see
+ * `sharedSubscriptionsAtom`), the server render (see `usePreloadedQuery`),
+ * the persisted cache, or another tab
+ * @since 0.1.0
+ * @category Models
+ */
+export type QuerySource = "server" | "leader" | "preload" | "cache" | "tab";
+
+/**
+ * Opts in to sharing live subscriptions between tabs: one leader tab per
+ * deployment and identity holds the Convex subscriptions and relays their
+ * results to the other tabs, which ask it for what they need. Another tab
+ * takes over when the leader closes.
+ *
+ * Needs Web Locks and a storage backend with `StorageBroadcast` (see
+ * `storageLayerAtom`), every tab subscribes on its own otherwise. Followers
+ * only receive the message of failed queries, and optimistic updates only
+ * show in the tab that made them once the leader relays the result.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const sharedSubscriptionsAtom = Atom.make(false).pipe(Atom.keepAlive);
+
+/**
+ * The tab coordinator of a client and identity, absent when the storage in
+ * context can't broadcast. It lives until the scope closes.
+ * @internal
+ */
+const tabCoordinator = (client: ConvexReactClient, identity: Option.Option<string>) =>
+  Effect.serviceOption(SubscribeableStorage.StorageBroadcast).pipe(
+    Effect.flatMap((broadcast) => Effect.transposeMapOption(broadcast, (broadcast) =>
+      TabCoordinator.make(
+        Option.match(identity, { onNone: () => client.url, onSome: (identity) => `${client.url}/${identity}` })
+      ).pipe(
+        Effect.provideService(SubscribeableStorage.StorageBroadcast, broadcast)
+      )
+    ))
+  );
+
+/**
+ * Subscribes to a query on behalf of the followers, relaying its results in
+ * Convex's JSON format.
+ * @internal
+ */
+const watchForFollowers = (client: ConvexReactClient) => (
+  request: TabCoordinator.SubscriptionRequest,
+  emit: (message: TabCoordinator.SubscriptionMessage, version?: number) => void
+) => {
+  const watch = client.watchQuery(
+    makeFunctionReference<"query">(request.functionName),
+    jsonToConvex(request.args as JSONValue) as Record<string, Value>
+  );
+  const relay = () => {
+    const version = snapshotVersion(client);
+    try {
+      const value = watch.localQueryResult();
+      if (value !== undefined) {
+        emit({ _tag: "Value", value: convexToJson(value) }, version);
+      }
+    } catch (error) {
+      emit({ _tag: "Error", message: error instanceof Error ? error.message : String(error) }, version);
+    }
+  };
+  const unsubscribe = watch.onUpdate(relay);
+  relay();
+  return unsubscribe;
+};
+
+/**
+ * The client and identity a tab leader is elected for
+ * @internal
+ */
+interface TabScope {
+  readonly client: ConvexReactClient;
+  readonly identity: Option.Option<string>;
+}
+
+/**
+ * Whether this tab leads the subscriptions of a client and identity, see
+ * `sharedSubscriptionsAtom`. The leader serves the other tabs for as long as
+ * it lives, whether or not it reads any query itself.
+ * @internal
+ */
+const tabLeadershipFamily = Atom.family(
+  ({ client, identity }: TabScope) =>
+    Atom.make((get): Stream.Stream<boolean> => {
+      const storage = get(storageContextAtom);
+      if (!Result.isSuccess(storage)) {
+        return Stream.never;
+      }
+
+      return Stream.unwrapScoped(tabCoordinator(client, identity).pipe(
+        Effect.map(Option.match({
+          // No other tab to share with
+          onNone: () => Stream.make(true),
+          onSome: (coordinator) => Stream.asyncPush<boolean>((emit: EmitOpsPush<never, boolean>) =>
+            Effect.acquireRelease(
+              Effect.gen(function* () {
+                let stopServing = () => { };
+                const stopElection = yield* coordinator.elect((isLeader) => {
+                  if (isLeader) {
+                    stopServing = coordinator.serve(watchForFollowers(client)).pipe(Effect.runSync);
+                  }
+                  emit.single(isLeader);
+                });
+                return () => {
+                  stopElection();
+                  stopServing();
+                };
+              }),
+              (cleanup) => Effect.sync(cleanup)
+            )
+          )
+        })),
+        Effect.provide(Option.getOrElse(storage.value, () => Context.empty()))
+      ));
+    }).pipe(Atom.keepAlive)
+);
+
+/**
+ * Follows the leader tab's subscription to a query, exposing its results
+ * like a Convex watch.
+ * @internal
+ */
+const followLeader = <Query extends FunctionReference<"query">, A, I>(
+  coordinator: TabCoordinator.TabCoordinator["Type"],
+  params: QueryParams<Query, A, I>
+) => Effect.gen(function* () {
+  let last = Option.none<TabCoordinator.SubscriptionMessage>();
+  const callbacks = new Set<() => void>();
+
+  const stop = yield* coordinator.follow({
+    key: queryKey(params),
+    functionName: getFunctionName(params.query),
+    args: convexToJson(params.args as Value)
+  }, (message) => {
+    last = Option.some(message);
+    callbacks.forEach((callback) => callback());
+  });
+
+  const watch: Pick<Watch<unknown>, "localQueryResult" | "onUpdate"> = {
+    localQueryResult: () => Option.match(last, {
+      onNone: () => undefined,
+      onSome: (message) => {
+        if (message._tag === "Error") {
+          throw new Error(message.message);
+        }
+        return jsonToConvex(message.value as JSONValue);
+      }
+    }),
+    onUpdate: (callback) => {
+      callbacks.add(callback);
+      return () => {
+        callbacks.delete(callback);
+      };
+    }
+  };
+
+  return { watch, stop };
+});
+
+/**
+ * Provenance of the current value of a query atom.
+ * `confirmed` turns true once the atom's live subscription has delivered a
+ * result, until then the value may be stale.
+ * @since 0.1.0
+ * @category Models
+ */
+export interface QueryProvenance {
+  readonly source: QuerySource;
+  readonly confirmed: boolean;
+  readonly updatedAt: number;
+}
+
+/**
+ * A value emitted by a query subscription, together with its provenance.
+ * @internal
+ */
+interface QuerySnapshot<A> extends QueryProvenance {
+  readonly value: A;
+}
+
+/**
+ * What `inspectRegistry` knows about the atom of a query or mutation, besides
+ * its registry node.
+ * @internal
+ */
+interface InspectedQuery {
+  readonly _tag: "Query";
+  readonly client: ConvexReactClient;
+  readonly functionName: string;
+  readonly args: unknown;
+  readonly key: string;
+  readonly persist: boolean | undefined;
+  // Live Convex (or leader tab) subscriptions of the atom
+  watches: number;
+}
+
+/**
+ * @internal
+ */
+interface InspectedMutation {
+  readonly _tag: "Mutation";
+  readonly client: ConvexReactClient;
+  readonly functionName: string;
+  readonly mode: MutationConcurrency | "queued";
+  lastArgs: Option.Option<unknown>;
+}
+
+type Inspected = InspectedQuery | InspectedMutation;
+
+/**
+ * Keyed by atom, so that entries go away with the atoms of their family.
+ * @internal
+ */
+const inspectedAtoms = new WeakMap<object, Inspected>();
+
+const inspected = <A extends object>(atom: A, inspection: Inspected): A => {
+  inspectedAtoms.set(atom, inspection);
+  return atom;
+};
+
+const inspectMutation = <Mutation extends FunctionReference<"mutation">, A, I>(
+  params: MutationParams<Mutation, A, I>,
+  mode: MutationConcurrency | "queued"
+): InspectedMutation => ({
+  _tag: "Mutation",
+  client: params.client,
+  functionName: getFunctionName(params.mutation),
+  mode,
+  lastArgs: Option.none()
+});
+
+/**
+ * The subscription behind `convexQueryFamily` and `convexQueryProvenanceFamily`.
+ * It is rebuilt, with results persisted per identity, whenever the signed-in
+ * identity of the client changes (see `convexAuthFamily`).
+ *
+ * When the params carry a schema, both live results and persisted values are
+ * decoded through it, and a value that does not match fails the atom with a
+ * `ParseError`. The persisted cache always holds the encoded (wire) form, under
+ * the policy configured with `queryCacheOptionsAtom`.
+ * @internal
+ */
+const convexQuerySnapshotFamily = Atom.family(
+  <Query extends FunctionReference<"query">, A = FunctionReturnType<Query>, I = A>(
+    params: QueryParams<Query, A, I>
+  ) => {
+    const inspection: InspectedQuery = {
+      _tag: "Query",
+      client: params.client,
+      functionName: getFunctionName(params.query),
+      args: params.args,
+      key: queryKey(params),
+      persist: params.persist,
+      watches: 0
+    };
+    const attributes = { "convex.function": inspection.functionName, "convex.cacheKey": inspection.key };
+    const subscriptions = Metric.tagged(Telemetry.activeSubscriptions, "function", inspection.functionName);
+    const updates = Metric.tagged(Telemetry.queryUpdates, "function", inspection.functionName);
+
+    return inspected(Atom.make((get): Stream.Stream<QuerySnapshot<A>, ConvexError | ParseError> => {
+      const scope = get(authScopeFamily(params.client));
+      const storage = get(storageContextAtom);
+      if (Option.isNone(scope) || !Result.isSuccess(storage)) {
+        // Whose persisted results to read is unknown until auth settles
+        return Stream.never;
+      }
+      const leadership = get(sharedSubscriptionsAtom)
+        ? get(tabLeadershipFamily(Data.struct({ client: params.client, identity: scope.value })))
+        : Result.success(true);
+      const tracer = get(tracerAtom);
+      if (!Result.isSuccess(leadership) || !Result.isSuccess(tracer)) {
+        return Stream.never;
+      }
+      const cacheOptions = get(queryCacheOptionsAtom);
+      const persisted = params.persist ?? cacheOptions.persistByDefault ?? true;
+
+      return Stream.asyncPush<QuerySnapshot<A>, ConvexError | ParseError>(
+        (emit: EmitOpsPush<ConvexError | ParseError, QuerySnapshot<A>>) =>
+          Effect.acquireRelease(
+            Effect.gen(function* () {
+              const cache = yield* Effect.serviceOption(QueryCache.QueryCache);
+              const seed = preloadedValueFamily(preloadKey(params));
+              const preloaded = get.once(seed);
+              const registry = get.registry;
+              let confirmed = false;
+
+              const emitSnapshot = (value: A, source: QuerySource) => {
+                confirmed = confirmed || source === "server" || source === "leader";
+                emit.single({ value, source, confirmed, updatedAt: Date.now() });
+              };
+
+              const functionName = getFunctionName(params.query);
+              const kvKey = queryKey(params);
+              const decode = decodeQueryResult(params);
+
+              // Followers get live results from the leader tab, which also persists them
+              const coordinator = leadership.value ? Option.none() : yield* tabCoordinator(params.client, scope.value);
+              const following = Option.isSome(coordinator)
+                ? Option.some(yield* followLeader(coordinator.value, params))
+                : Option.none();
+              const watch = Option.match(following, {
+                onNone: () => params.client.watchQuery(params.query, params.args),
+                onSome: ({ watch }) => watch
+              });
+              const liveSource: QuerySource = Option.isSome(following) ? "leader" : "server";
+              const toConvexError = fromClientError(functionName);
+              yield* Effect.annotateCurrentSpan("convex.source", liveSource);
+
+              // Updates run with the tracer and services of the subscription, their spans are children of its span
+              const runUpdate = Runtime.runFork(yield* Effect.runtime<never>());
+
+              // Live results that don't match the schema fail with the ParseError itself
+              const emitDecoded = (value: unknown, source: QuerySource = liveSource) => Either.match(decode(value), {
+                onLeft: (error) => emit.fail(error),
+                onRight: (decoded) => emitSnapshot(decoded, source)
+              });
+
+              // Persisted values that can't be decoded fail with a ConvexCacheError
+              const listener = (source: QuerySource) => (value: string) => Effect.try(() => JSON.parse(value))
+                .pipe(
+                  Effect.flatMap(decode),
+                  Effect.match({
+                    onFailure: (err) => emit.fail(new ConvexCacheError({
+                      message: `Failed to decode stored value for key ${kvKey}`,
+                      key: kvKey,
+                      cause: err
+                    })),
+                    onSuccess: (decoded) => emitSnapshot(decoded, source)
+                  })
+                )
+
+              // A result that can't be persisted is still a valid result
+              const persist = (value: unknown) => Effect.transposeMapOption(
+                Option.isSome(following) ? Option.none() : cache,
+                (store) => store.set(kvKey, JSON.stringify(value), snapshotVersion(params.client))
+              ).pipe(
+                Effect.mapError((cause) => new ConvexCacheError({
+                  message: `Failed to persist query result for key ${kvKey}`,
+                  key: kvKey,
+                  cause
+                })),
+                Effect.catchAll((error) => Effect.logWarning(error.message, error))
+              );
+
+              // Set up storage and broadcast subscriptions (if available). Followers
+              // skip them: what the leader persists and broadcasts, it also relays
+              const unsubscribeCache = Option.isSome(cache) && Option.isNone(following)
+                ? yield* cache.value.subscribe(kvKey, listener("tab"))
+                : () => { };
+
+              // Initial load: try localQueryResult first, then cached value
+              const initial = yield* Effect.try({
+                try: () => Option.fromNullable(watch.localQueryResult()),
+                catch: toConvexError
+              }).pipe(Effect.either);
+
+              if (Either.isLeft(initial)) {
+                emit.fail(initial.left);
+              } else if (Option.isSome(initial.right)) {
+                emitDecoded(initial.right.value);
+                yield* persist(initial.right.value);
+              } else if (Option.isSome(preloaded)) {
+                // Fetched during server rendering, fresher than anything persisted
+                // until this subscription ends
+                emitDecoded(preloaded.value, "preload");
+              } else {
+                // No initial result from watch, check cached value
+                yield* Effect.transposeMapOption(cache, store => store.get(kvKey))
+                  .pipe(
+                    Effect.map(Option.flatten),
+                    Effect.flatMap(Option.match({
+                      onSome: listener("cache"),
+                      onNone: () => Effect.void
+                    }))
+                  );
+              }
+
+              // Set up Convex subscription - emits and persists every update
+              const unsubscribe = watch.onUpdate(() => runUpdate(
+                Effect.try({ try: () => watch.localQueryResult(), catch: toConvexError }).pipe(
+                  Effect.matchEffect({
+                    onFailure: (error) => Effect.sync(() => emit.fail(error)),
+                    onSuccess: (result) => {
+                      notifyActivity(params.client);
+                      if (result === undefined) {
+                        return Effect.void;
+                      }
+                      emitDecoded(result);
+                      return Metric.increment(updates).pipe(Effect.zipRight(persist(result)));
+                    }
+                  }),
+                  Effect.withSpan("convexQuery.update", { attributes })
+                )
+              ));
+              inspection.watches++;
+              yield* Metric.increment(subscriptions);
+
+              // Return cleanup function
+              return () => {
+                unsubscribe();
+                unsubscribeCache();
+                Option.map(following, ({ stop }) => stop());
+                inspection.watches--;
+                // A rebuilt atom reads the newer persisted result or waits for Convex instead
+                if (Option.isSome(preloaded)) {
+                  registry.set(seed, Option.none());
+                }
+              };
+            }).pipe(
+              Effect.provide(queryCacheLayer(
+                persisted ? storage.value : Option.none(),
+                params.client,
+                cacheOptions,
+                scope.value
+              )),
+              Effect.provide(Option.getOrElse(storage.value, () => Context.empty())),
+              Effect.mapError(error => new ConvexCacheError({
+                message: `Failed to access the query cache`,
+                key: queryKey(params),
+                cause: error
+              })),
+              Effect.withSpan("convexQuery.subscribe", { attributes }),
+              withTracer(tracer.value)
+            ),
+            // Cleanup: unsubscribe when stream is terminated
+            (cleanup) => Effect.sync(cleanup).pipe(Effect.zipRight(Metric.incrementBy(subscriptions, -1)))
+          ),
+        {
+          bufferSize: 2,
+          strategy: "sliding"
+        }
+      );
+    }).pipe(
+      withLifetime(params.lifetime)
+    ), inspection)
+
+  }
+
+);
+
+/**
+ * Atom family for Convex queries.
+ * Creates reactive atoms that automatically update when Convex data changes.
+ *
+ * A value preloaded on the server, read from the persisted cache or received
+ * from another tab is shown straight away but stays `waiting` until the atom's
+ * live subscription confirms it, see `convexQueryProvenanceFamily` for where it
+ * came from.
+ *
+ * The atom, and with it the subscription, lives as long as the params'
+ * `QueryLifetime` allows. With `waitingWhileDisconnected`, the value is also
+ * `waiting` while the client is disconnected, as it may be out of date.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexQueryFamily = Atom.family(
+  <Query extends FunctionReference<"query">, A = FunctionReturnType<Query>, I = A>(
+    params: QueryParams<Query, A, I>
+  ): Atom.Atom<Result.Result<A, ConvexError | ParseError>> =>
+    Atom.make((get) => {
+      const result = get(convexQuerySnapshotFamily(params));
+      switch (result._tag) {
+        case "Initial":
+          // The subscription has not emitted yet, e.g. during the first render
+          return Option.match(get(preloadedValueFamily(preloadKey(params))), {
+            onNone: () => Result.initial(result.waiting),
+            onSome: (value) => Either.match(decodeQueryResult(params)(value), {
+              onLeft: (error) => Result.fail(error),
+              onRight: (decoded) => Result.success(decoded, { waiting: true })
+            })
+          });
+        case "Failure":
+          return Result.failure(result.cause, { waiting: result.waiting });
+        case "Success":
+          return Result.success(result.value.value, {
+            waiting: !result.value.confirmed || (
+              params.waitingWhileDisconnected &&
+              get(convexConnectionFamily(params.client)).status !== "connected"
+            ),
+            timestamp: result.value.updatedAt
+          });
+      }
+    }).pipe(withLifetime(params.lifetime))
+);
+
+/**
+ * Atom family reporting where a query atom's current value came from and
+ * whether its live subscription has confirmed it.
+ * `None` until the query has a value.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexQueryProvenanceFamily = Atom.family(
+  <Query extends FunctionReference<"query">, A = FunctionReturnType<Query>, I = A>(
+    params: QueryParams<Query, A, I>
+  ): Atom.Atom<Option.Option<QueryProvenance>> =>
+    Atom.make((get) => Result.value(get(convexQuerySnapshotFamily(params))).pipe(
+      Option.map(({ source, confirmed, updatedAt }): QueryProvenance => ({ source, confirmed, updatedAt }))
+    )).pipe(withLifetime(params.lifetime))
+);
+
+/**
+ * Args of a reactive query: an atom holding them, or a function reading other
+ * atoms. `"skip"` leaves the query unsubscribed, like Convex's `"skip"`.
+ * @since 0.1.0
+ * @category Models
+ */
+export type ReactiveQueryArgs<Query extends FunctionReference<"query">> =
+  | Atom.Atom<FunctionArgs<Query> | "skip">
+  | ((get: Atom.Context) => FunctionArgs<Query> | "skip");
+
+/**
+ * Creates a query atom whose args are derived from other atoms, e.g. a query
+ * that waits for the result of another one:
+ *
+ * ```ts
+ * const author = convexReactiveQuery({
+ *   client,
+ *   query: api.users.get,
+ *   args: (get) => Result.match(get(post), {
+ *     onInitial: () => "skip",
+ *     onFailure: () => "skip",
+ *     onSuccess: ({ value }) => ({ id: value.authorId })
+ *   })
+ * });
+ * ```
+ *
+ * It resubscribes whenever the args change and stays `Initial` while they are
+ * skipped. Each set of args reads its own `convexQueryFamily` atom, so the
+ * value of the previous args is never shown for the new ones.
+ *
+ * The atom is not part of a family: create it once, outside of render or memoized.
+ *
+ * @since 0.1.0
+ * @category Constructors
+ */
+export const convexReactiveQuery = <Query extends FunctionReference<"query">, A = FunctionReturnType<Query>, I = A>(
+  options: {
+    readonly client: ConvexReactClient;
+    readonly query: Query;
+    readonly args: ReactiveQueryArgs<Query>;
+    readonly schema?: Schema.Schema<A, I>;
+  } & Omit<QueryOptions, "client">
+): Atom.Atom<Result.Result<A, ConvexError | ParseError>> =>
+  Atom.make((get): Result.Result<A, ConvexError | ParseError> => {
+    const args = Atom.isAtom(options.args) ? get(options.args) : options.args(get);
+    if (args === "skip") {
+      return Result.initial();
+    }
+    return get(convexQueryFamily(makeQueryParams<Query, A, I>({ ...options, args })));
+  }).pipe(withLifetime(decodeLifetime(options.lifetime)));
+
+
+/**
+ * One query of a `convexQueriesFamily` record, with an optional schema its
+ * result is decoded with
+ * @since 0.1.0
+ * @category Models
+ */
+export interface QuerySpec<Query extends FunctionReference<"query">, A = FunctionReturnType<Query>, I = A> {
+  readonly query: Query;
+  readonly args: FunctionArgs<Query>;
+  readonly schema?: Schema.Schema<A, I>;
+}
+
+/**
+ * A record of queries read together, see `convexQueriesFamily`
+ * @since 0.1.0
+ * @category Models
+ */
+export type QueryRecord = Record<string, {
+  readonly query: FunctionReference<"query">;
+  readonly args: FunctionArgs<FunctionReference<"query">>;
+  readonly schema?: Schema.Schema.AnyNoContext;
+}>;
+
+/**
+ * Checks the args and schema of every query of a record against its function
+ * @since 0.1.0
+ * @category Models
+ */
+export type ValidQueryRecord<R extends QueryRecord> = {
+  readonly [K in keyof R]: QuerySpec<R[K]["query"], QueryRecordValue<R[K]>, FunctionReturnType<R[K]["query"]>>
+};
+
+type QueryRecordValue<S> =
+  S extends { readonly schema: Schema.Schema.AnyNoContext } ? Schema.Schema.Type<S["schema"]> :
+  S extends { readonly query: infer Query extends FunctionReference<"query"> } ? FunctionReturnType<Query> :
+  never;
+
+/**
+ * The results of a record of queries, by key
+ * @since 0.1.0
+ * @category Models
+ */
+export type QueryRecordValues<R extends QueryRecord> = {
+  readonly [K in keyof R]: QueryRecordValue<R[K]>
+};
+
+/**
+ * @since 0.1.0
+ * @category Symbols
+ */
+export const QueriesParamsTypeId: unique symbol = Symbol.for("@convex-atom/QueriesParams");
+export type QueriesParamsTypeId = typeof QueriesParamsTypeId;
+
+/**
+ * Type guard to check if a value is QueriesParams
+ * @since 0.1.0
+ * @category Predicates
+ */
+export const isQueriesParams = <R extends QueryRecord>(u: unknown): u is QueriesParams<R> =>
+  u !== null &&
+  typeof u === "object" &&
+  QueriesParamsTypeId in u;
+
+/**
+ * Parameters for a record of queries read together
+ * @since 0.1.0
+ * @category Models
+ */
+interface QueriesParams<R extends QueryRecord> extends Hash.Hash, Equal.Equal {
+  readonly [QueriesParamsTypeId]: QueriesParamsTypeId;
+  readonly client: ConvexReactClient;
+  readonly queries: R;
+  readonly lifetime: Duration.Duration | undefined;
+}
+
+const QueriesParamsProto = {
+  [QueriesParamsTypeId]: QueriesParamsTypeId,
+
+  [Hash.symbol]<R extends QueryRecord>(this: QueriesParams<R>): number {
+    // Sorted by key, equal records list their queries in any order
+    return Hash.cached(this, Hash.array([
+      this.client.url,
+      ...Object.entries(this.queries).sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0).map(([key, spec]) =>
+        Hash.combine(Hash.string(key))(Hash.combine(Hash.string(getFunctionName(spec.query)))(Hash.structure(spec.args)))
+      )
+    ]));
+  },
+
+  [Equal.symbol]<R extends QueryRecord>(this: QueriesParams<R>, that: unknown): boolean {
+    // Same keys, each with the same query, args and schema
+    if (!isQueriesParams(that) || this.client.url !== that.client.url || !Equal.equals(this.lifetime, that.lifetime)) {
+      return false;
+    }
+    const keys = Object.keys(this.queries);
+    return (
+      keys.length === Object.keys(that.queries).length &&
+      keys.every((key) => {
+        const spec = this.queries[key];
+        const other = that.queries[key];
+        return (
+          other !== undefined &&
+          getFunctionName(spec.query) === getFunctionName(other.query) &&
+          Equal.equals(spec.args, other.args) &&
+          spec.schema === other.schema
+        );
+      })
+    );
+  }
+};
+
+/**
+ * Creates the params of `convexQueriesFamily`
+ * @since 0.1.0
+ * @category Constructors
+ */
+export const makeQueriesParams = <R extends QueryRecord>({
+  client,
+  queries,
+  lifetime
+}: {
+  readonly client: ConvexReactClient;
+  readonly queries: R;
+  readonly lifetime?: QueryLifetime;
+}): QueriesParams<R> =>
+  Object.assign(Object.create(QueriesParamsProto), {
+    client,
+    queries: Object.fromEntries(Object.entries(queries).map(([key, spec]) =>
+      [key, { ...spec, args: Data.struct(spec.args ?? {}) }]
+    )),
+    lifetime: decodeLifetime(lifetime)
+  });
+
+/**
+ * Stream of consistent results for a record of queries.
+ *
+ * Convex updates the local results of every query of a client from one
+ * server transition before notifying any of them, so the results read once
+ * the notifications of a transition are over all come from the same snapshot.
+ * @internal
+ */
+const convexQueriesStreamFamily = Atom.family(
+  <R extends QueryRecord>(params: QueriesParams<R>) =>
+    Atom.make((get): Stream.Stream<QueryRecordValues<R>, ConvexError | ParseError> => {
+      if (Option.isNone(get(authScopeFamily(params.client)))) {
+        // Don't read results as anonymous while auth is settling
+        return Stream.never;
+      }
+
+      return Stream.asyncPush<QueryRecordValues<R>, ConvexError | ParseError>(
+        (emit: EmitOpsPush<ConvexError | ParseError, QueryRecordValues<R>>) =>
+          Effect.acquireRelease(
+            Effect.sync(() => {
+              const watches = Object.entries(params.queries).map(([key, spec]) =>
+                [key, spec, params.client.watchQuery(spec.query, spec.args)] as const
+              );
+              let scheduled = false;
+              let closed = false;
+
+              const emitAll = () => {
+                scheduled = false;
+                if (closed) {
+                  return;
+                }
+                const values: Record<string, unknown> = {};
+                for (const [key, spec, watch] of watches) {
+                  let value: unknown;
+                  try {
+                    value = watch.localQueryResult();
+                  } catch (error) {
+                    emit.fail(fromClientError(getFunctionName(spec.query))(error));
+                    return;
+                  }
+                  if (value === undefined) {
+                    // Only emit once every query has a result
+                    return;
+                  }
+                  const decoded = spec.schema === undefined
+                    ? Either.right(value)
+                    : Schema.decodeUnknownEither(spec.schema)(value);
+                  if (Either.isLeft(decoded)) {
+                    emit.fail(decoded.left);
+                    return;
+                  }
+                  values[key] = decoded.right;
+                }
+                notifyActivity(params.client);
+                emit.single(values as QueryRecordValues<R>);
+              };
+
+              // One emission per transition, however many of the queries it changed
+              const schedule = () => {
+                if (!scheduled) {
+                  scheduled = true;
+                  queueMicrotask(emitAll);
+                }
+              };
+
+              const unsubscribes = watches.map(([, , watch]) => watch.onUpdate(schedule));
+              emitAll();
+
+              return () => {
+                closed = true;
+                unsubscribes.forEach((unsubscribe) => unsubscribe());
+              };
+            }),
+            (release) => Effect.sync(release)
+          )
+      );
+    }).pipe(withLifetime(params.lifetime))
+);
+
+/**
+ * Atom family for a record of queries whose results always come from the
+ * same database snapshot, unlike separate `convexQueryFamily` atoms that may
+ * briefly render results from different snapshots.
+ *
+ * The combined Result is `Initial` until every query has a result, and fails
+ * as soon as one of them fails. Results come from the live subscriptions only:
+ * persisted results were stored at different times.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexQueriesFamily = Atom.family(
+  <R extends QueryRecord>(
+    params: QueriesParams<R>
+  ): Atom.Atom<Result.Result<QueryRecordValues<R>, ConvexError | ParseError>> =>
+    Atom.make((get) => {
+      const result = get(convexQueriesStreamFamily(params));
+      return Result.isSuccess(result) ? Result.success(result.value, { timestamp: result.timestamp }) : result;
+    }).pipe(withLifetime(params.lifetime))
+);
+
+
+/**
+ * Atom family that purges a client's persisted query cache, for the identity
+ * currently signed in (or anonymous results).
+ * Writing `"expired"` only drops entries past their max age or written by
+ * another cache version, `"all"` drops every entry of the namespace.
+ * Mounted query atoms keep their current value.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexPurgeQueryCacheFamily = Atom.family(
+  (client: ConvexReactClient) => Atom.fn((mode: "all" | "expired", get) =>
+    get.result(storageContextAtom).pipe(
+      Effect.flatMap((storage) => Effect.gen(function* () {
+        const cache = yield* Effect.serviceOption(QueryCache.QueryCache);
+        if (Option.isSome(cache)) {
+          yield* mode === "all" ? cache.value.purge : cache.value.purgeExpired;
+        }
+        get.refresh(convexQueryCacheEntriesFamily(client));
+      }).pipe(
+        Effect.provide(queryCacheLayer(
+          storage,
+          client,
+          get(queryCacheOptionsAtom),
+          Option.flatten(get(authScopeFamily(client)))
+        ))
+      )),
+      Effect.mapError(error => new ConvexCacheError({
+        message: `Failed to purge the query cache`,
+        key: client.url,
+        cause: error
+      }))
+    )
+  )
+);
+
+
+/**
+ * Decodes the encoded `Exit` returned by an Effect Convex function and
+ * re-raises its failure in the error channel.
+ * @internal
+ */
+const decodeFunctionExit = <A, E, I>(schema: Schema.Schema<Exit.Exit<A, E>, I> | undefined) =>
+  (value: unknown): Effect.Effect<A, E | ParseError> =>
+    (schema === undefined
+      ? Effect.succeed(value as Exit.Exit<A, E>)
+      : Schema.decodeUnknown(schema)(value)
+    ).pipe(Effect.flatten);
+
+/**
+ * Atom family for queries defined with `effectQuery`.
+ * The encoded `Exit` is decoded with the shared schema (see
+ * `convexQueryFamily`) and flattened, so a failed handler shows up as a
+ * `Result.Failure` carrying the server's typed error.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexEffectQueryFamily = Atom.family(
+  <Query extends FunctionReference<"query">, A, E, I>(
+    params: QueryParams<Query, Exit.Exit<A, E>, I>
+  ): Atom.Atom<Result.Result<A, E | ConvexError | ParseError>> =>
+    Atom.make((get) => {
+      const result = get(convexQueryFamily(params));
+      switch (result._tag) {
+        case "Initial":
+          return Result.initial(result.waiting);
+        case "Failure":
+          return Result.failure(result.cause, { waiting: result.waiting });
+        case "Success":
+          return Exit.match(result.value, {
+            onSuccess: (value) => Result.success(value, { waiting: result.waiting, timestamp: result.timestamp }),
+            onFailure: (cause) => Result.failure(cause, { waiting: result.waiting })
+          });
+      }
+    }).pipe(withLifetime(params.lifetime))
+);
+
+/**
+ * @since 0.1.0
+ * @category Symbols
+ */
+export const PaginatedQueryParamsTypeId: unique symbol = Symbol.for("@convex-atom/PaginatedQueryParams");
+export type PaginatedQueryParamsTypeId = typeof PaginatedQueryParamsTypeId;
+
+/**
+ * Type guard to check if a value is PaginatedQueryParams
+ * @since 0.1.0
+ * @category Predicates
+ */
+export const isPaginatedQueryParams = <Query extends PaginatedQueryReference>(u: unknown): u is PaginatedQueryParams<Query> =>
+  u !== null &&
+  typeof u === "object" &&
+  PaginatedQueryParamsTypeId in u;
+
+/**
+ * Paginated query parameters for Convex paginated query atoms
+ * @since 0.1.0
+ * @category Models
+ */
+interface PaginatedQueryParams<Query extends PaginatedQueryReference> extends Hash.Hash, Equal.Equal {
+  readonly [PaginatedQueryParamsTypeId]: PaginatedQueryParamsTypeId;
+  readonly client: ConvexReactClient;
+  readonly query: Query;
+  readonly args: PaginatedQueryArgs<Query>;
+  readonly initialNumItems: number;
+  readonly lifetime: Duration.Duration | undefined;
+  readonly persist: boolean | undefined;
+}
+
+const PaginatedQueryParamsProto = {
+  [PaginatedQueryParamsTypeId]: PaginatedQueryParamsTypeId,
+
+  [Hash.symbol]<Query extends PaginatedQueryReference>(
+    this: PaginatedQueryParams<Query>
+  ): number {
+    return Hash.cached(this, Hash.array([
+      this.client.url,
+      getFunctionName(this.query),
+      Hash.structure(this.args),
+      this.initialNumItems
+    ]));
+  },
+
+  [Equal.symbol]<Query extends PaginatedQueryReference>(
+    this: PaginatedQueryParams<Query>,
+    that: unknown
+  ): boolean {
+    return (
+      isPaginatedQueryParams(that) &&
+      this.client.url === that.client.url &&
+      getFunctionName(this.query) === getFunctionName(that.query) &&
+      Equal.equals(this.args, that.args) &&
+      this.initialNumItems === that.initialNumItems &&
+      Equal.equals(this.lifetime, that.lifetime) &&
+      this.persist === that.persist
+    );
+  }
+};
+
+/**
+ * Creates the params of `convexPaginatedQueryFamily` and `convexLoadMoreFamily`
+ * @since 0.1.0
+ * @category Constructors
+ */
+export const makePaginatedQueryParams = <Query extends PaginatedQueryReference>({
+  client,
+  query,
+  args,
+  initialNumItems,
+  lifetime,
+  persist,
+}: {
+  readonly client: ConvexReactClient;
+  readonly query: Query;
+  readonly args?: PaginatedQueryArgs<Query>;
+  readonly initialNumItems: number;
+  readonly lifetime?: QueryLifetime;
+  readonly persist?: boolean;
+}): PaginatedQueryParams<Query> =>
+  Object.assign(Object.create(PaginatedQueryParamsProto), {
+    client,
+    query,
+    args: Data.struct(args ?? {}),
+    initialNumItems,
+    lifetime: decodeLifetime(lifetime),
+    persist
+  });
+
+/**
+ * A single page requested from a paginated query.
+ * Once a later page has been requested, `endCursor` pins the page boundary so
+ * that inserts and deletes never make neighbouring pages overlap or leave gaps.
+ * @internal
+ */
+interface PageRequest {
+  readonly cursor: string | null;
+  readonly numItems: number;
+  readonly endCursor?: string;
+}
+
+/**
+ * The combined state of every page loaded so far.
+ * @since 0.1.0
+ * @category Models
+ */
+export interface PaginatedQueryResult<Item> {
+  readonly results: ReadonlyArray<Item>;
+  readonly status: PaginationStatus;
+}
+
+const pageQueryAtom = <Query extends PaginatedQueryReference>(
+  params: PaginatedQueryParams<Query>,
+  page: PageRequest
+) => convexQueryFamily(makeQueryParams({
+  client: params.client,
+  query: params.query,
+  args: {
+    ...params.args,
+    paginationOpts: Data.struct(page.endCursor === undefined
+      ? { numItems: page.numItems, cursor: page.cursor }
+      : { numItems: page.numItems, cursor: page.cursor, endCursor: page.endCursor })
+  } as FunctionArgs<Query>,
+  lifetime: params.lifetime,
+  persist: params.persist
+}));
+
+/**
+ * Reads a page, falling back to the unpinned version of a freshly pinned page
+ * until the pinned subscription has produced its first value.
+ * @internal
+ */
+const readPage = <Query extends PaginatedQueryReference>(
+  get: <A>(atom: Atom.Atom<A>) => A,
+  params: PaginatedQueryParams<Query>,
+  page: PageRequest
+): Result.Result<FunctionReturnType<Query>, ConvexError | ParseError> => {
+  const result = get(pageQueryAtom(params, page));
+  if (Result.isInitial(result) && page.endCursor !== undefined) {
+    return get(pageQueryAtom(params, { cursor: page.cursor, numItems: page.numItems }));
+  }
+  return result;
+};
+
+/**
+ * The two pages a page can be replaced with once Convex recommends splitting
+ * it (or requires it), as it grew too large, like `usePaginatedQuery` does.
+ * @internal
+ */
+const splitPage = <Item>(
+  page: PageRequest,
+  result: PaginationResult<Item>,
+  initialNumItems: number
+): Option.Option<readonly [PageRequest, PageRequest]> =>
+  typeof result.splitCursor === "string" && (
+    result.pageStatus === "SplitRecommended" ||
+    result.pageStatus === "SplitRequired" ||
+    result.page.length > initialNumItems * 2
+  )
+    ? Option.some([
+      { cursor: page.cursor, numItems: page.numItems, endCursor: result.splitCursor },
+      { cursor: result.splitCursor, numItems: page.numItems, endCursor: result.continueCursor }
+    ])
+    : Option.none();
+
+const paginatedPagesFamily = Atom.family(
+  <Query extends PaginatedQueryReference>(
+    params: PaginatedQueryParams<Query>
+  ): Atom.Writable<ReadonlyArray<PageRequest>> =>
+    Atom.make<ReadonlyArray<PageRequest>>([{ cursor: null, numItems: params.initialNumItems }]).pipe(
+      withLifetime(params.lifetime)
+    )
+);
+
+/**
+ * Atom family for paginated Convex queries.
+ * Every loaded page is its own reactive `convexQueryFamily` atom, so all pages
+ * keep updating while the combined list grows through `convexLoadMoreFamily`.
+ * A page that grows too large is split in two once Convex recommends it, like
+ * `usePaginatedQuery` does.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexPaginatedQueryFamily = Atom.family(
+  <Query extends PaginatedQueryReference>(
+    params: PaginatedQueryParams<Query>
+  ): Atom.Atom<Result.Result<PaginatedQueryResult<PaginatedQueryItem<Query>>, ConvexError | ParseError>> =>
+    Atom.make((get) => {
+      const pagesAtom = paginatedPagesFamily(params);
+      const pages = get(pagesAtom);
+      const results: Array<PaginatedQueryItem<Query>> = [];
+
+      for (const [index, page] of pages.entries()) {
+        const result = readPage(get, params, page);
+
+        if (Result.isFailure(result)) {
+          return Result.failure(result.cause);
+        }
+
+        if (Result.isInitial(result)) {
+          return index === 0
+            ? Result.initial(true)
+            : Result.success({ results, status: "LoadingMore" as const });
+        }
+
+        // A page Convex recommends splitting is shown until both halves have
+        // a result, after which they replace it
+        const halves = Option.map(
+          splitPage(page, result.value, params.initialNumItems),
+          (halves) => halves.map((half) => [half, get(pageQueryAtom(params, half))] as const)
+        );
+        const split = Option.filter(halves, (halves) => halves.every(([, result]) => Result.isSuccess(result)));
+        if (Option.isSome(split)) {
+          const registry = get.registry;
+          queueMicrotask(() => {
+            const current = registry.get(pagesAtom);
+            const at = current.indexOf(page);
+            if (at !== -1) {
+              registry.set(pagesAtom, [...current.slice(0, at), ...split.value.map(([half]) => half), ...current.slice(at + 1)]);
+            }
+          });
+        } else if (result.value.pageStatus === "SplitRequired") {
+          return index === 0
+            ? Result.initial(true)
+            : Result.success({ results, status: "LoadingMore" as const });
+        }
+
+        const loaded = Option.match(split, {
+          onNone: () => [result.value],
+          onSome: (halves) => halves.map(([, result]) => Result.getOrThrow(result))
+        });
+        loaded.forEach((loaded) => results.push(...loaded.page));
+
+        if (index === pages.length - 1) {
+          return Result.success({
+            results,
+            status: loaded[loaded.length - 1].isDone ? "Exhausted" as const : "CanLoadMore" as const
+          });
+        }
+      }
+
+      return Result.initial(true);
+    }).pipe(withLifetime(params.lifetime))
+);
+
+/**
+ * Atom family for loading more items into a paginated Convex query.
+ * Writing `n` requests the next `n` items; the write is ignored unless the
+ * paginated query is currently in the `CanLoadMore` state.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexLoadMoreFamily = Atom.family(
+  <Query extends PaginatedQueryReference>(
+    params: PaginatedQueryParams<Query>
+  ): Atom.Writable<void, number> =>
+    Atom.writable(
+      () => undefined,
+      (ctx, numItems: number) => {
+        const pagesAtom = paginatedPagesFamily(params);
+        const pages = ctx.get(pagesAtom);
+        const last = pages[pages.length - 1];
+        const lastResult = readPage(ctx.get, params, last);
+
+        if (!Result.isSuccess(lastResult) || lastResult.value.isDone) {
+          return;
+        }
+
+        const continueCursor = lastResult.value.continueCursor;
+        ctx.set(pagesAtom, [
+          ...pages.slice(0, -1),
+          { ...last, endCursor: continueCursor },
+          { cursor: continueCursor, numItems }
+        ]);
+      }
+    )
+);
+
+
+/**
+ * @since 0.1.0
+ * @category Symbols
+ */
+export const MutationParamsTypeId: unique symbol = Symbol.for("@convex-atom/MutationParams");
+export type MutationParamsTypeId = typeof MutationParamsTypeId;
+
+/**
+ * Type guard to check if a value is MutationParams
+ * @since 0.1.0
+ * @category Predicates
+ */
+export const isMutationParams = <Mutation extends FunctionReference<"mutation">>(u: unknown): u is MutationParams<Mutation> =>
+  u !== null &&
+  typeof u === "object" &&
+  MutationParamsTypeId in u;
+
+/**
+ * What a mutation atom does when it is called while a call is in flight:
+ * - `"parallel"` sends the new call straight away, the in-flight one keeps going
+ * - `"queue"` sends calls one after the other, in order
+ * - `"drop"` ignores the new call, which resolves with the in-flight result
+ * - `"switch"` (the default) abandons the in-flight call for the new one
+ *
+ * The atom's Result always follows the latest call, and so does whoever awaits
+ * an earlier one: e.g. the promise `useMutation` returned for it settles with
+ * the latest call's outcome, not its own. With `"parallel"` and `"queue"`
+ * earlier calls still run to completion (retries included), their outcomes
+ * just aren't reported. An abandoned call may still be applied by the server,
+ * it only stops being retried or awaited.
+ * @since 0.1.0
+ * @category Models
+ */
+export type MutationConcurrency = "parallel" | "queue" | "drop" | "switch";
+
+/**
+ * Mutation parameters for Convex mutation atoms
+ * @since 0.1.0
+ * @category Models
+ */
+interface MutationParams<
+  Mutation extends FunctionReference<"mutation">,
+  A = FunctionReturnType<Mutation>,
+  I = A
+> {
+  readonly [MutationParamsTypeId]: MutationParamsTypeId;
+  readonly client: ConvexReactClient;
+  readonly mutation: Mutation;
+  readonly optimisticUpdate?: OptimisticUpdate<Mutation>;
+  readonly schema?: Schema.Schema<A, I>;
+  readonly retry?: Schedule.Schedule<unknown, ConvexError>;
+  readonly retryWhile?: Predicate.Predicate<ConvexError>;
+  readonly timeout?: Duration.Duration;
+  readonly concurrency: MutationConcurrency;
+  readonly [Hash.symbol]: () => number;
+  readonly [Equal.symbol]: (that: unknown) => boolean;
+}
+
+const MutationParamsProto = {
+  [MutationParamsTypeId]: MutationParamsTypeId,
+
+  [Hash.symbol]<Mutation extends FunctionReference<"mutation">>(
+    this: MutationParams<Mutation>
+  ): number {
+    // Clients are identified by their deployment URL
+    return Hash.cached(this, Hash.array([this.client.url, getFunctionName(this.mutation)]));
+  },
+
+  [Equal.symbol]<Mutation extends FunctionReference<"mutation">>(
+    this: MutationParams<Mutation>,
+    that: unknown
+  ): boolean {
+    // Compare deployments, mutation names, optimistic updates, schemas and policies
+    return (
+      isMutationParams(that) &&
+      this.client.url === that.client.url &&
+      getFunctionName(this.mutation) === getFunctionName(that.mutation) &&
+      this.optimisticUpdate === that.optimisticUpdate &&
+      this.schema === that.schema &&
+      this.retry === that.retry &&
+      this.retryWhile === that.retryWhile &&
+      Equal.equals(this.timeout, that.timeout) &&
+      this.concurrency === that.concurrency
+    );
+  }
+};
+
+/**
+ * Creates the params of `convexMutationFamily` and the other mutation families
+ * @since 0.1.0
+ * @category Constructors
+ */
+export const makeMutationParams = <Mutation extends FunctionReference<"mutation">, A = FunctionReturnType<Mutation>, I = A>({
+  client,
+  mutation,
+  optimisticUpdate,
+  schema,
+  retry,
+  retryWhile,
+  timeout,
+  concurrency = "switch"
+}: {
+  readonly client: ConvexReactClient;
+  readonly mutation: Mutation;
+  readonly optimisticUpdate?: OptimisticUpdate<Mutation>;
+  readonly schema?: Schema.Schema<A, I>;
+  readonly retry?: Schedule.Schedule<unknown, ConvexError>;
+  readonly retryWhile?: Predicate.Predicate<ConvexError>;
+  readonly timeout?: Duration.DurationInput;
+  readonly concurrency?: MutationConcurrency;
+}): MutationParams<Mutation, A, I> =>
+  Object.assign(Object.create(MutationParamsProto), {
+    client,
+    mutation,
+    optimisticUpdate,
+    schema,
+    retry,
+    retryWhile,
+    timeout: timeout === undefined ? undefined : Duration.decode(timeout),
+    concurrency
+  });
+
+/**
+ * Effect-friendly view of Convex's optimistic local query store.
+ * Queries are addressed by function reference and args, exactly like
+ * `convexQueryFamily` atoms.
+ *
+ * @since 0.1.0
+ * @category Models
+ */
+export interface OptimisticQueryStore {
+  readonly get: <Query extends FunctionReference<"query">>(
+    query: Query,
+    args: FunctionArgs<Query>
+  ) => Effect.Effect<Option.Option<FunctionReturnType<Query>>>;
+  readonly set: <Query extends FunctionReference<"query">>(
+    query: Query,
+    args: FunctionArgs<Query>,
+    value: FunctionReturnType<Query>
+  ) => Effect.Effect<void>;
+  /**
+   * Patches the local result of a query, doing nothing if it has not loaded
+   */
+  readonly update: <Query extends FunctionReference<"query">>(
+    query: Query,
+    args: FunctionArgs<Query>,
+    f: (current: FunctionReturnType<Query>) => FunctionReturnType<Query>
+  ) => Effect.Effect<void>;
+}
+
+/**
+ * An optimistic update applied while a mutation is in flight.
+ * Convex rolls it back once the mutation settles, whether it succeeded or failed.
+ *
+ * The update is part of the mutation atom's identity, so define it outside of
+ * render (or memoize it) to keep sharing one atom between renders.
+ *
+ * @since 0.1.0
+ * @category Models
+ */
+export type OptimisticUpdate<Mutation extends FunctionReference<"mutation">> = (
+  args: FunctionArgs<Mutation>,
+  store: OptimisticQueryStore
+) => Effect.Effect<void>;
+
+const makeOptimisticQueryStore = (localStore: OptimisticLocalStore): OptimisticQueryStore => {
+  const get = <Query extends FunctionReference<"query">>(query: Query, args: FunctionArgs<Query>) =>
+    Effect.sync(() => Option.fromNullable(localStore.getQuery(query, ...[args] as OptionalRestArgs<Query>)));
+
+  const set = <Query extends FunctionReference<"query">>(
+    query: Query,
+    args: FunctionArgs<Query>,
+    value: FunctionReturnType<Query>
+  ) => Effect.sync(() => localStore.setQuery(query, args, value));
+
+  return {
+    get,
+    set,
+    update: (query, args, f) => get(query, args).pipe(
+      Effect.flatMap(Option.match({
+        onNone: () => Effect.void,
+        onSome: (current) => set(query, args, f(current))
+      }))
+    )
+  };
+};
+
+/**
+ * Atom family for Convex mutations.
+ * Creates effectful function atoms that execute mutations.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexMutationFamily = Atom.family(
+  <Mutation extends FunctionReference<"mutation">>(
+    params: MutationParams<Mutation>
+  ) => {
+    const withConcurrency = makeMutationConcurrency<FunctionReturnType<Mutation>, ConvexError>(params.concurrency);
+    const inspection = inspectMutation(params, params.concurrency);
+    return inspected(Atom.fn(
+      Effect.fn(function* (args: FunctionArgs<Mutation>, get: Atom.FnContext) {
+        inspection.lastArgs = Option.some(args);
+        return yield* traced(get, withConcurrency(runMutation(params, args)));
+      })
+    ), inspection);
+  }
+);
+
+/**
+ * Atom family for mutations defined with `effectMutation`.
+ * The encoded `Exit` is decoded with the shared schema, so the atom fails
+ * with the server's typed error.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexEffectMutationFamily = Atom.family(
+  <Mutation extends FunctionReference<"mutation">, A, E, I>(
+    params: MutationParams<Mutation, Exit.Exit<A, E>, I>
+  ) => {
+    const withConcurrency = makeMutationConcurrency<A, E | ConvexError | ParseError>(params.concurrency);
+    const inspection = inspectMutation(params, params.concurrency);
+    return inspected(Atom.fn(
+      Effect.fn(function* (args: FunctionArgs<Mutation>, get: Atom.FnContext) {
+        inspection.lastArgs = Option.some(args);
+        return yield* traced(get, withConcurrency(runMutation(params, args).pipe(
+          Effect.flatMap(decodeFunctionExit(params.schema))
+        )));
+      })
+    ), inspection);
+  }
+);
+
+const isTransportError = (error: ConvexError) => error._tag === "ConvexTransportError";
+
+/**
+ * Sends a mutation, retrying the errors selected by `retryWhile` (transport
+ * errors by default) with the retry schedule and failing with
+ * `ConvexTimeoutError` once the timeout (retries included) is up.
+ * @internal
+ */
+const runMutation = <Mutation extends FunctionReference<"mutation">, A, I>(
+  params: MutationParams<Mutation, A, I>,
+  args: FunctionArgs<Mutation>
+): Effect.Effect<FunctionReturnType<Mutation>, ConvexError> => {
+  const functionName = getFunctionName(params.mutation);
+  const optimisticUpdate = params.optimisticUpdate;
+  const { retry, retryWhile = isTransportError, timeout } = params;
+
+  const send = Effect.tryPromise({
+    try: () => params.client.mutation(params.mutation, args, {
+      optimisticUpdate: optimisticUpdate &&
+        ((localStore, args) => optimisticUpdate(args, makeOptimisticQueryStore(localStore)).pipe(Effect.runSync))
+    }),
+    catch: fromClientError(functionName)
+  });
+
+  const retried = retry === undefined
+    ? send
+    : send.pipe(Effect.retry({ schedule: retry, while: retryWhile }));
+
+  const bounded = timeout === undefined
+    ? retried
+    : retried.pipe(Effect.timeoutFail({
+      duration: timeout,
+      onTimeout: () => new ConvexTimeoutError({
+        message: `Mutation ${functionName} timed out after ${Duration.format(timeout)}`,
+        functionName,
+        timeout
+      })
+    }));
+
+  return traceMutation(functionName)(bounded);
+};
+
+/**
+ * Traces a mutation call and records how long it took to settle.
+ * @internal
+ */
+const traceMutation = (functionName: string) => <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+  effect.pipe(
+    Metric.trackDuration(Metric.tagged(Telemetry.mutationDuration, "function", functionName)),
+    Effect.withSpan("convexMutation.call", { attributes: { "convex.function": functionName } })
+  );
+
+/**
+ * Applies a concurrency mode to the calls of one mutation atom.
+ * `Atom.fn` interrupts the running call whenever it is called again, which is
+ * `"switch"`; every other mode runs calls on their own fiber and only waits for it.
+ * @internal
+ */
+const makeMutationConcurrency = <A, E>(
+  mode: MutationConcurrency
+): (effect: Effect.Effect<A, E>) => Effect.Effect<A, E> => {
+  switch (mode) {
+    case "switch": {
+      return (effect) => effect;
+    }
+    case "parallel": {
+      return (effect) => Effect.forkDaemon(effect).pipe(Effect.flatMap(Fiber.join));
+    }
+    case "queue": {
+      const semaphore = Effect.unsafeMakeSemaphore(1);
+      return (effect) => Effect.forkDaemon(semaphore.withPermits(1)(effect)).pipe(Effect.flatMap(Fiber.join));
+    }
+    case "drop": {
+      let inflight: Deferred.Deferred<A, E> | undefined;
+      return (effect) => Effect.suspend(() => {
+        if (inflight !== undefined) {
+          return Deferred.await(inflight);
+        }
+        const deferred = Deferred.unsafeMake<A, E>(FiberId.none);
+        inflight = deferred;
+        return effect.pipe(
+          Effect.exit,
+          Effect.flatMap((exit) => Deferred.done(deferred, exit)),
+          Effect.ensuring(Effect.sync(() => {
+            inflight = undefined;
+          })),
+          Effect.forkDaemon,
+          Effect.zipRight(Deferred.await(deferred))
+        );
+      });
+    }
+  }
+};
+
+/**
+ * The persisted mutation queue of a client and signed-in identity, absent
+ * without storage.
+ * @internal
+ */
+const mutationQueueLayer = (storage: StorageContext, client: ConvexReactClient, identity: Option.Option<string>) =>
+  Option.match(storage, {
+    onNone: () => Layer.empty,
+    onSome: (storage) => MutationQueue.layer(
+      Option.match(identity, { onNone: () => client.url, onSome: (identity) => `${client.url}/${identity}` })
+    ).pipe(
+      Layer.provide(Layer.succeedContext(storage))
+    )
+  });
+
+// Cache errors already say what went wrong with the queue
+const mutationQueueError = (client: ConvexReactClient) => (error: unknown) =>
+  error instanceof ConvexCacheError ? error : new ConvexCacheError({
+    message: `Failed to access the mutation queue`,
+    key: client.url,
+    cause: error
+  });
+
+// One replay at a time per tab, the queue's lock keeps other tabs out
+const replaySemaphores = new Map<string, Effect.Semaphore>();
+
+// The calls this page sent, by entry id, until their outcome is recorded. The
+// client resends a call in flight itself once reconnected, so a replay that
+// was interrupted while awaiting one awaits it again rather than sending it twice.
+const sentMutations = new Map<string, Promise<unknown>>();
+
+/**
+ * Sends the pending calls of a queue one at a time, in order. A call that
+ * fails because the connection dropped stays pending, any other failure
+ * marks it failed, which holds up the calls after it until it is retried or
+ * discarded.
+ *
+ * A call is only removed once Convex acknowledges it, so a call whose
+ * acknowledgement was lost (e.g. the page closed) is sent again on the next
+ * load: queued mutations should be idempotent.
+ * @internal
+ */
+const replayMutationQueue = (storage: StorageContext, client: ConvexReactClient, identity: Option.Option<string>) => {
+  const namespace = Option.match(identity, { onNone: () => client.url, onSome: (identity) => `${client.url}/${identity}` });
+  const semaphore = replaySemaphores.get(namespace) ?? Effect.unsafeMakeSemaphore(1);
+  replaySemaphores.set(namespace, semaphore);
+
+  return Effect.gen(function* () {
+    const queue = yield* Effect.serviceOption(MutationQueue.MutationQueue);
+    if (Option.isNone(queue)) {
+      return;
+    }
+
+    // Awaiting a call can be interrupted (it never settles while offline), but
+    // sending it and recording its outcome can't
+    const sendNext = Effect.gen(function* () {
+      const next = (yield* queue.value.entries)[0];
+      if (next === undefined || next.status === "failed") {
+        return false;
+      }
+
+      const sent = yield* Effect.suspend(() => {
+        const sent = sentMutations.get(next.id);
+        if (sent !== undefined) {
+          return Effect.succeed(sent);
+        }
+        return queue.value.update(next.id, (entry) => ({ ...entry, attempts: entry.attempts + 1 })).pipe(
+          Effect.map(() => {
+            const sent = client.mutation(
+              makeFunctionReference<"mutation">(next.functionName),
+              jsonToConvex(next.args as JSONValue) as Record<string, Value>
+            );
+            // Its outcome is only observed by a replay awaiting it
+            sent.catch(() => { });
+            sentMutations.set(next.id, sent);
+            return sent;
+          })
+        );
+      }).pipe(Effect.uninterruptible);
+
+      const exit = yield* Effect.tryPromise({
+        try: () => sent,
+        catch: fromClientError(next.functionName)
+      }).pipe(traceMutation(next.functionName), Effect.exit);
+
+      return yield* Effect.gen(function* () {
+        if (Exit.isSuccess(exit)) {
+          yield* queue.value.remove(next.id);
+          sentMutations.delete(next.id);
+          return true;
+        }
+
+        // Sent again by the next replay
+        sentMutations.delete(next.id);
+        const error = Cause.failureOption(exit.cause);
+        if (Option.isSome(error) && error.value._tag === "ConvexTransportError") {
+          return false;
+        }
+        yield* queue.value.update(next.id, (entry) => ({
+          ...entry,
+          status: "failed" as const,
+          error: Option.match(error, { onNone: () => Cause.pretty(exit.cause), onSome: (error) => error.message })
+        }));
+        return false;
+      }).pipe(Effect.uninterruptible);
+    });
+
+    yield* queue.value.withLock(Effect.repeat(sendNext, { while: (more) => more }));
+  }).pipe(
+    semaphore.withPermits(1),
+    Effect.provide(mutationQueueLayer(storage, client, identity)),
+    Effect.catchAll((error) => Effect.logWarning("Failed to replay the mutation queue", error)),
+    Effect.withSpan("replayMutationQueue")
+  );
+};
+
+/**
+ * Replays the queue of a client whenever it (re)connects, including right
+ * after the page loads. Mounted by the queue hooks.
+ * @internal
+ */
+const mutationQueueReplayFamily = Atom.family(
+  (client: ConvexReactClient) => {
+    // Not rebuilt by activity updates, only when the connection comes or goes
+    const connected = Atom.map(convexConnectionFamily(client), (status) => status.status === "connected");
+    return Atom.make((get) => {
+      const scope = get(authScopeFamily(client));
+      const storage = get(storageContextAtom);
+      const tracer = get(tracerAtom);
+      return get(connected) && Option.isSome(scope) && Result.isSuccess(storage) && Result.isSuccess(tracer)
+        ? replayMutationQueue(storage.value, client, scope.value).pipe(withTracer(tracer.value))
+        : Effect.void;
+    });
+  }
+);
+
+/**
+ * Atom family listing the queued mutation calls of a client (for the
+ * signed-in identity), in the order they are replayed. Calls stay listed
+ * until Convex acknowledges them, or while they are failed.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexMutationQueueFamily = Atom.family(
+  (client: ConvexReactClient): Atom.Atom<Result.Result<ReadonlyArray<MutationQueue.QueuedMutation>, ConvexCacheError>> =>
+    Atom.make((get) => {
+      get.mount(mutationQueueReplayFamily(client));
+      const scope = get(authScopeFamily(client));
+      const storage = get(storageContextAtom);
+      if (Option.isNone(scope) || !Result.isSuccess(storage)) {
+        return Effect.never;
+      }
+
+      return Effect.gen(function* () {
+        const queue = yield* Effect.serviceOption(MutationQueue.MutationQueue);
+        if (Option.isNone(queue)) {
+          return [];
+        }
+        const unsubscribe = yield* queue.value.subscribe(() => get.refreshSelf());
+        get.addFinalizer(unsubscribe);
+        return yield* queue.value.entries;
+      }).pipe(
+        Effect.provide(mutationQueueLayer(storage.value, client, scope.value)),
+        Effect.mapError(mutationQueueError(client))
+      );
+    })
+);
+
+/**
+ * A call to a queued mutation. Calls enqueued twice with the same
+ * idempotency key are only sent once, a random key is used by default.
+ * @since 0.1.0
+ * @category Models
+ */
+export interface QueuedMutationCall<Mutation extends FunctionReference<"mutation">> {
+  readonly args: FunctionArgs<Mutation>;
+  readonly idempotencyKey?: string;
+}
+
+/**
+ * Atom family for mutations in queued mode: calls are persisted and sent in
+ * order, now if the client is connected or once it reconnects (in this tab
+ * or a later load). The atom succeeds with the queued entry as soon as the
+ * call is persisted, follow it with `convexMutationQueueFamily`.
+ *
+ * Optimistic updates and result schemas don't apply to queued calls.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexQueuedMutationFamily = Atom.family(
+  <Mutation extends FunctionReference<"mutation">>(
+    params: MutationParams<Mutation>
+  ) => {
+    const inspection = inspectMutation(params, "queued");
+    return inspected(Atom.fn((call: QueuedMutationCall<Mutation>, get) => {
+      inspection.lastArgs = Option.some(call.args);
+      const identity = Option.flatten(get(authScopeFamily(params.client)));
+      return get.result(storageContextAtom).pipe(
+        Effect.flatMap((storage) => Effect.gen(function* () {
+          const queue = yield* Effect.serviceOption(MutationQueue.MutationQueue);
+          if (Option.isNone(queue)) {
+            return yield* new ConvexCacheError({
+              message: "The mutation queue needs a storage backend, see storageLayerAtom",
+              key: params.client.url
+            });
+          }
+
+          const entry = yield* queue.value.enqueue({
+            id: call.idempotencyKey ?? crypto.randomUUID(),
+            functionName: getFunctionName(params.mutation),
+            args: convexToJson(call.args),
+            enqueuedAt: Date.now(),
+            status: "pending",
+            attempts: 0
+          });
+          yield* Effect.forkDaemon(replayMutationQueue(storage, params.client, identity));
+          return entry;
+        }).pipe(
+          Effect.provide(mutationQueueLayer(storage, params.client, identity))
+        )),
+        Effect.mapError(mutationQueueError(params.client)),
+        (effect) => traced(get, effect)
+      );
+    }), inspection);
+  }
+);
+
+/**
+ * Atom family for retrying a failed call of a client's mutation queue: it is
+ * marked pending again and replayed in its original position.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexRetryQueuedMutationFamily = Atom.family(
+  (client: ConvexReactClient) => Atom.fn((id: string, get) => {
+    const identity = Option.flatten(get(authScopeFamily(client)));
+    return get.result(storageContextAtom).pipe(
+      Effect.flatMap((storage) => Effect.gen(function* () {
+        const queue = yield* Effect.serviceOption(MutationQueue.MutationQueue);
+        if (Option.isSome(queue)) {
+          yield* queue.value.update(id, (entry) => ({ ...entry, status: "pending", error: undefined }));
+          yield* Effect.forkDaemon(replayMutationQueue(storage, client, identity));
+        }
+      }).pipe(
+        Effect.provide(mutationQueueLayer(storage, client, identity))
+      )),
+      Effect.mapError(mutationQueueError(client))
+    );
+  })
+);
+
+/**
+ * Atom family for discarding a call of a client's mutation queue, it is
+ * never sent again. Discarding a failed call resumes sending the calls after it.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexDiscardQueuedMutationFamily = Atom.family(
+  (client: ConvexReactClient) => Atom.fn((id: string, get) => {
+    const identity = Option.flatten(get(authScopeFamily(client)));
+    return get.result(storageContextAtom).pipe(
+      Effect.flatMap((storage) => Effect.gen(function* () {
+        const queue = yield* Effect.serviceOption(MutationQueue.MutationQueue);
+        if (Option.isSome(queue)) {
+          yield* queue.value.remove(id);
+          yield* Effect.forkDaemon(replayMutationQueue(storage, client, identity));
+        }
+      }).pipe(
+        Effect.provide(mutationQueueLayer(storage, client, identity))
+      )),
+      Effect.mapError(mutationQueueError(client))
+    );
+  })
+);
+
+/**
+ * @since 0.1.0
+ * @category Symbols
+ */
+export const ActionParamsTypeId: unique symbol = Symbol.for("@convex-atom/ActionParams");
+export type ActionParamsTypeId = typeof ActionParamsTypeId;
+
+/**
+ * Type guard to check if a value is ActionParams
+ * @since 0.1.0
+ * @category Predicates
+ */
+export const isActionParams = <Action extends FunctionReference<"action">>(u: unknown): u is ActionParams<Action> =>
+  u !== null &&
+  typeof u === "object" &&
+  ActionParamsTypeId in u;
+
+/**
+ * Action parameters for Convex action atoms
+ * @since 0.1.0
+ * @category Models
+ */
+interface ActionParams<
+  Action extends FunctionReference<"action">,
+  A = FunctionReturnType<Action>,
+  I = A
+> {
+  readonly [ActionParamsTypeId]: ActionParamsTypeId;
+  readonly client: ConvexReactClient;
+  readonly action: Action;
+  readonly schema?: Schema.Schema<A, I>;
+  readonly [Hash.symbol]: () => number;
+  readonly [Equal.symbol]: (that: unknown) => boolean;
+}
+
+const ActionParamsProto = {
+  [ActionParamsTypeId]: ActionParamsTypeId,
+
+  [Hash.symbol]<Action extends FunctionReference<"action">>(
+    this: ActionParams<Action>
+  ): number {
+    // Clients are identified by their deployment URL
+    return Hash.cached(this, Hash.array([this.client.url, getFunctionName(this.action)]));
+  },
+
+  [Equal.symbol]<Action extends FunctionReference<"action">>(
+    this: ActionParams<Action>,
+    that: unknown
+  ): boolean {
+    // Compare deployments, action names and schemas
+    return (
+      isActionParams(that) &&
+      this.client.url === that.client.url &&
+      getFunctionName(this.action) === getFunctionName(that.action) &&
+      this.schema === that.schema
+    );
+  }
+};
+
+/**
+ * Creates the params of `convexActionFamily` and `convexEffectActionFamily`
+ * @since 0.1.0
+ * @category Constructors
+ */
+export const makeActionParams = <Action extends FunctionReference<"action">, A = FunctionReturnType<Action>, I = A>({
+  client,
+  action,
+  schema,
+}: {
+  readonly client: ConvexReactClient;
+  readonly action: Action;
+  readonly schema?: Schema.Schema<A, I>;
+}): ActionParams<Action, A, I> =>
+  Object.assign(Object.create(ActionParamsProto), { client, action, schema });
+
+/**
+ * Atom family for Convex actions.
+ * Creates effectful function atoms that execute actions.
+ *
+ * Convex cannot abort an action once it has been sent, so interrupting the
+ * atom (e.g. by writing `Atom.Interrupt` or calling it again) only stops
+ * waiting for the result; the action still runs to completion on the server.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexActionFamily = Atom.family(
+  <Action extends FunctionReference<"action">>(
+    params: ActionParams<Action>
+  ) => Atom.fn(
+    Effect.fn(function* (args: FunctionArgs<Action>) {
+      return yield* runAction(params, args);
+    })
+  )
+);
+
+/**
+ * Atom family for actions defined with `effectAction`.
+ * The encoded `Exit` is decoded with the shared schema, so the atom fails
+ * with the server's typed error.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexEffectActionFamily = Atom.family(
+  <Action extends FunctionReference<"action">, A, E, I>(
+    params: ActionParams<Action, Exit.Exit<A, E>, I>
+  ) => Atom.fn(
+    Effect.fn(function* (args: FunctionArgs<Action>) {
+      const encoded = yield* runAction(params, args);
+      return yield* decodeFunctionExit(params.schema)(encoded);
+    })
+  )
+);
+
+const runAction = <Action extends FunctionReference<"action">, A, I>(
+  params: ActionParams<Action, A, I>,
+  args: FunctionArgs<Action>
+) =>
+  Effect.tryPromise({
+    try: () => params.client.action(params.action, args),
+    catch: fromClientError(getFunctionName(params.action))
+  });
+
+/**
+ * A query atom of a registry, as seen by `inspectRegistry`
+ * @since 0.1.0
+ * @category Models
+ */
+export interface QueryInspection {
+  readonly client: ConvexReactClient;
+  readonly functionName: string;
+  readonly args: unknown;
+  /**
+   * Identifies the query's persisted result, see `QueryCache.QueryCacheEntry`
+   */
+  readonly key: string;
+  readonly persisted: boolean;
+  /**
+   * Whether the atom is subscribed to Convex, or to the leader tab
+   */
+  readonly subscribed: boolean;
+  /**
+   * Components and mounts reading the query, directly or through atoms
+   * derived from it; `None` if the registry can't tell
+   */
+  readonly subscribers: Option.Option<number>;
+  readonly result: Result.Result<unknown, unknown>;
+  readonly provenance: Option.Option<QueryProvenance>;
+}
+
+/**
+ * A mutation atom of a registry, as seen by `inspectRegistry`
+ * @since 0.1.0
+ * @category Models
+ */
+export interface MutationInspection {
+  readonly client: ConvexReactClient;
+  readonly functionName: string;
+  readonly mode: MutationConcurrency | "queued";
+  /**
+   * See `QueryInspection.subscribers`
+   */
+  readonly subscribers: Option.Option<number>;
+  /**
+   * The args of the latest call, if any
+   */
+  readonly lastArgs: Option.Option<unknown>;
+  readonly result: Result.Result<unknown, unknown>;
+}
+
+/**
+ * The query and mutation atoms of a registry
+ * @since 0.1.0
+ * @category Models
+ */
+export interface ConvexInspection {
+  readonly queries: ReadonlyArray<QueryInspection>;
+  readonly mutations: ReadonlyArray<MutationInspection>;
+}
+
+/**
+ * Counts the listeners of a node and of the nodes derived from it. The
+ * registry doesn't expose who reads a node, this is the one place reading its
+ * internals: `None` when they aren't what they used to be.
+ * @internal
+ */
+const countSubscribers = (node: unknown): Option.Option<number> => {
+  const seen = new Set<unknown>();
+  const count = (node: unknown): Option.Option<number> => {
+    if (seen.has(node)) {
+      return Option.some(0);
+    }
+    seen.add(node);
+    const { listeners, children } = node as { readonly listeners?: unknown; readonly children?: unknown };
+    if (!Array.isArray(listeners) || !Array.isArray(children)) {
+      return Option.none();
+    }
+    return Option.all(children.map(count)).pipe(
+      Option.map((counts) => counts.reduce((total, count) => total + count, listeners.length))
+    );
+  };
+  return count(node);
+};
+
+/**
+ * Lists the query and mutation atoms living in a registry, e.g. from the
+ * browser console while debugging stale data. Queries read through
+ * `convexQueriesFamily` or `convexPaginatedQueryFamily` are not listed.
+ *
+ * @since 0.1.0
+ * @category Utils
+ */
+export const inspectRegistry = (registry: Registry.Registry): ConvexInspection => {
+  const persistByDefault = registry.get(queryCacheOptionsAtom).persistByDefault ?? true;
+  const queries: Array<QueryInspection> = [];
+  const mutations: Array<MutationInspection> = [];
+
+  for (const node of registry.getNodes().values()) {
+    const inspection = inspectedAtoms.get(node.atom);
+    if (inspection === undefined) {
+      continue;
+    }
+    switch (inspection._tag) {
+      case "Query": {
+        const snapshot = node.value() as Result.Result<QuerySnapshot<unknown>, unknown>;
+        queries.push({
+          client: inspection.client,
+          functionName: inspection.functionName,
+          args: inspection.args,
+          key: inspection.key,
+          persisted: inspection.persist ?? persistByDefault,
+          subscribed: inspection.watches > 0,
+          subscribers: countSubscribers(node),
+          result: Result.map(snapshot, ({ value }) => value),
+          provenance: Result.value(snapshot).pipe(
+            Option.map(({ source, confirmed, updatedAt }): QueryProvenance => ({ source, confirmed, updatedAt }))
+          )
+        });
+        break;
+      }
+      case "Mutation": {
+        mutations.push({
+          client: inspection.client,
+          functionName: inspection.functionName,
+          mode: inspection.mode,
+          subscribers: countSubscribers(node),
+          lastArgs: inspection.lastArgs,
+          result: node.value() as Result.Result<unknown, unknown>
+        });
+        break;
+      }
+    }
+  }
+
+  return { queries, mutations };
+};
+
+const inspectionInterval = Duration.seconds(1);
+
+/**
+ * Recomputes an atom on an interval while it is mounted, for the devtools
+ * atoms, whose sources don't notify them.
+ * @internal
+ */
+const pollEvery = (get: Atom.Context, interval: Duration.Duration) => {
+  const timer = setInterval(() => get.refreshSelf(), Duration.toMillis(interval));
+  get.addFinalizer(() => clearInterval(timer));
+};
+
+/**
+ * `inspectRegistry` for the registry the atom lives in, refreshed every second
+ * while mounted.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexInspectionAtom: Atom.Atom<ConvexInspection> = Atom.make((get) => {
+  pollEvery(get, inspectionInterval);
+  return inspectRegistry(get.registry);
+});
+
+/**
+ * Atom family listing the persisted query results of a client, for the
+ * identity currently signed in, refreshed every second while mounted.
+ * Empty without storage.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexQueryCacheEntriesFamily = Atom.family(
+  (client: ConvexReactClient): Atom.Atom<Result.Result<ReadonlyArray<QueryCache.QueryCacheEntry>, ConvexCacheError>> =>
+    Atom.make((get) => {
+      const scope = get(authScopeFamily(client));
+      const storage = get(storageContextAtom);
+      if (Option.isNone(scope) || !Result.isSuccess(storage)) {
+        return Effect.never;
+      }
+      pollEvery(get, inspectionInterval);
+
+      return Effect.gen(function* () {
+        const cache = yield* Effect.serviceOption(QueryCache.QueryCache);
+        return Option.isSome(cache) ? yield* cache.value.entries : [];
+      }).pipe(
+        Effect.provide(queryCacheLayer(storage.value, client, get(queryCacheOptionsAtom), scope.value)),
+        Effect.mapError(error => new ConvexCacheError({
+          message: `Failed to list the query cache`,
+          key: client.url,
+          cause: error
+        }))
+      );
+    })
+);
+
+/**
+ * Invalidates a query listed by `inspectRegistry`: drops its persisted result
+ * and rebuilds its atoms' subscriptions, which start over from Convex.
+ *
+ * @since 0.1.0
+ * @category Atoms
+ */
+export const convexInvalidateQueryAtom = Atom.fn(
+  (query: Pick<QueryInspection, "client" | "key">, get) =>
+    get.result(storageContextAtom).pipe(
+      Effect.flatMap((storage) => Effect.gen(function* () {
+        const cache = yield* Effect.serviceOption(QueryCache.QueryCache);
+        if (Option.isSome(cache)) {
+          yield* cache.value.remove(query.key);
+        }
+      }).pipe(
+        Effect.provide(queryCacheLayer(
+          storage,
+          query.client,
+          get(queryCacheOptionsAtom),
+          Option.flatten(get(authScopeFamily(query.client)))
+        ))
+      )),
+      Effect.mapError(error => new ConvexCacheError({
+        message: `Failed to invalidate the query cache`,
+        key: query.key,
+        cause: error
+      })),
+      Effect.tap(() => Effect.sync(() => {
+        for (const node of get.registry.getNodes().values()) {
+          const inspection = inspectedAtoms.get(node.atom);
+          if (
+            inspection?._tag === "Query" &&
+            inspection.client.url === query.client.url &&
+            inspection.key === query.key
+          ) {
+            get.registry.refresh(node.atom);
+          }
+        }
+        get.refresh(convexQueryCacheEntriesFamily(query.client));
+      }))
+    )
+);
+
+/**
+ * Options accepted by every hook. `client` talks to another deployment than
+ * the one from the nearest `ConvexProvider`, e.g. an analytics deployment;
+ * atoms and persisted results are kept apart per deployment URL.
+ * @since 0.1.0
+ * @category Models
+ */
+export interface ClientOptions {
+  readonly client?: ConvexReactClient;
+}
+
+/**
+ * Options accepted by every query hook, see `QueryLifetime`
+ * @since 0.1.0
+ * @category Models
+ */
+export interface QueryOptions extends ClientOptions {
+  readonly lifetime?: QueryLifetime;
+  /**
+   * Marks the Result as `waiting` while the client is disconnected
+   */
+  readonly waitingWhileDisconnected?: boolean;
+  /**
+   * Whether results are persisted and shared with other tabs, see
+   * `storageLayerAtom`. Defaults to the query cache's `persistByDefault`.
+   */
+  readonly persist?: boolean;
+}
+
+/**
+ * Options accepted by the mutation hooks. The optimistic update, retry
+ * schedule and `retryWhile` are part of the mutation atom's identity, so
+ * define them outside of render (or memoize them).
+ * @since 0.1.0
+ * @category Models
+ */
+export interface MutationOptions<Mutation extends FunctionReference<"mutation">> extends ClientOptions {
+  /**
+   * Applied while the mutation is in flight
+   */
+  readonly optimisticUpdate?: OptimisticUpdate<Mutation>;
+  /**
+   * Retries the errors selected by `retryWhile`, e.g. `Schedule.exponential("100 millis").pipe(Schedule.intersect(Schedule.recurs(3)))`
+   */
+  readonly retry?: Schedule.Schedule<unknown, ConvexError>;
+  /**
+   * Which errors are retried, transport errors by default. The client resends
+   * mutations itself once reconnected, so they rarely fail with one: select
+   * the errors worth another attempt, e.g. a `ConvexApplicationError` the
+   * mutation throws when it is contended.
+   */
+  readonly retryWhile?: Predicate.Predicate<ConvexError>;
+  /**
+   * Fails the call with `ConvexTimeoutError` once it has not settled within
+   * this duration, retries included
+   */
+  readonly timeout?: Duration.DurationInput;
+  /**
+   * See `MutationConcurrency`, `"switch"` by default
+   */
+  readonly concurrency?: MutationConcurrency;
+}
+
+/**
+ * The client a hook talks to, see `ClientOptions`.
+ * @internal
+ */
+const useClient = (options: ClientOptions | undefined): ConvexReactClient => {
+  const context = useConvex();
+  return options?.client ?? context;
+};
+
+/**
+ * React hook for Convex queries with automatic reactivity.
+ * Returns a Result type that handles loading, success, and error states.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param query - The Convex query function reference
+ * @param args - Optional arguments for the query
+ * @param options - An optional schema the result (live or cached) is decoded with, and client
+ */
+export function useQuery<Query extends FunctionReference<"query">, A, I>(
+  query: Query,
+  args: FunctionArgs<Query>,
+  options: { readonly schema: Schema.Schema<A, I> } & QueryOptions
+): Result.Result<A, ConvexError | ParseError>;
+export function useQuery<Query extends FunctionReference<"query">>(
+  query: Query,
+  args?: FunctionArgs<Query>,
+  options?: QueryOptions
+): Result.Result<FunctionReturnType<Query>, ConvexError>;
+export function useQuery<Query extends FunctionReference<"query">, A, I>(
+  query: Query,
+  args?: FunctionArgs<Query>,
+  options?: { readonly schema?: Schema.Schema<A, I> } & QueryOptions
+): Result.Result<A, ConvexError | ParseError> {
+
+  const client = useClient(options);
+
+  const params = makeQueryParams({
+    client,
+    query,
+    args,
+    schema: options?.schema,
+    lifetime: options?.lifetime,
+    waitingWhileDisconnected: options?.waitingWhileDisconnected,
+    persist: options?.persist
+  });
+  const atom = React.useMemo(() => convexQueryFamily(params), [params]);
+
+  return useAtomValue(atom);
+}
+
+
+/**
+ * React hook for queries whose args are derived from other atoms, or skipped
+ * until they are known, see `convexReactiveQuery`.
+ *
+ * The args are compared by reference: define them outside of render or
+ * memoize them, or the query atom is recreated on every render.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param query - The Convex query function reference
+ * @param args - An atom holding the args, or a function reading other atoms
+ * @param options - An optional schema the result is decoded with, and client
+ */
+export function useReactiveQuery<Query extends FunctionReference<"query">, A, I>(
+  query: Query,
+  args: ReactiveQueryArgs<Query>,
+  options: { readonly schema: Schema.Schema<A, I> } & QueryOptions
+): Result.Result<A, ConvexError | ParseError>;
+export function useReactiveQuery<Query extends FunctionReference<"query">>(
+  query: Query,
+  args: ReactiveQueryArgs<Query>,
+  options?: QueryOptions
+): Result.Result<FunctionReturnType<Query>, ConvexError>;
+export function useReactiveQuery<Query extends FunctionReference<"query">, A, I>(
+  query: Query,
+  args: ReactiveQueryArgs<Query>,
+  options?: { readonly schema?: Schema.Schema<A, I> } & QueryOptions
+): Result.Result<A, ConvexError | ParseError> {
+
+  const client = useClient(options);
+  const schema = options?.schema;
+  const lifetime = options?.lifetime;
+  const waitingWhileDisconnected = options?.waitingWhileDisconnected;
+  const persist = options?.persist;
+
+  const atom = React.useMemo(
+    () => convexReactiveQuery({ client, query, args, schema, lifetime, waitingWhileDisconnected, persist }),
+    [client, query, args, schema, lifetime, waitingWhileDisconnected, persist]
+  );
+
+  return useAtomValue(atom);
+}
+
+
+/**
+ * React hook for a record of queries whose results come from the same
+ * database snapshot, see `convexQueriesFamily`. Returns one Result with the
+ * results by key:
+ *
+ * ```ts
+ * const result = useQueries({
+ *   numbers: { query: api.myFunctions.listNumbers, args: { count: 10 }, schema: ListNumbersExit },
+ *   viewer: { query: api.users.viewer, args: {} }
+ * });
+ * ```
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param queries - The queries by key, each with its args and an optional schema
+ * @param options - An optional lifetime and client
+ */
+export const useQueries = <R extends QueryRecord>(
+  queries: R & ValidQueryRecord<R>,
+  options?: Pick<QueryOptions, "client" | "lifetime">
+): Result.Result<QueryRecordValues<R>, ConvexError | ParseError> => {
+
+  const client = useClient(options);
+
+  const params = makeQueriesParams({ client, queries, lifetime: options?.lifetime });
+  const atom = React.useMemo(() => convexQueriesFamily(params), [params]);
+
+  return useAtomValue(atom);
+};
+
+
+/**
+ * Reads the query, args and value out of a `preloadQuery` payload and seeds
+ * the registry with the value, so the first render already has it.
+ * @internal
+ */
+const usePreloadedParams = <Query extends FunctionReference<"query">, A, I>(
+  preloaded: Preloaded<Query>,
+  schema: Schema.Schema<A, I> | undefined,
+  options: QueryOptions | undefined
+): QueryParams<Query, A, I> => {
+
+  const client = useClient(options);
+
+  const query = React.useMemo(() => makeFunctionReference<"query">(preloaded._name) as Query, [preloaded._name]);
+  const args = React.useMemo(() => jsonToConvex(preloaded._argsJSON) as FunctionArgs<Query>, [preloaded._argsJSON]);
+  const value = React.useMemo(() => jsonToConvex(preloaded._valueJSON), [preloaded._valueJSON]);
+
+  const params = makeQueryParams({
+    client,
+    query,
+    args,
+    schema,
+    lifetime: options?.lifetime,
+    waitingWhileDisconnected: options?.waitingWhileDisconnected,
+    persist: options?.persist
+  });
+  useAtomInitialValues([preloadedQueryValue(params, value)]);
+
+  return params;
+};
+
+/**
+ * React hook for queries preloaded in a Server Component with `preloadQuery`
+ * from `convex/nextjs`, the atom equivalent of Convex's `usePreloadedQuery`.
+ * The first render is a (waiting) `Success` with the server-fetched value,
+ * after which the atom continues from its live subscription.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param preloaded - The payload returned by `preloadQuery`
+ * @param options - An optional schema the result (live or preloaded) is decoded with, and client
+ */
+export function usePreloadedQuery<Query extends FunctionReference<"query">, A, I>(
+  preloaded: Preloaded<Query>,
+  options: { readonly schema: Schema.Schema<A, I> } & QueryOptions
+): Result.Result<A, ConvexError | ParseError>;
+export function usePreloadedQuery<Query extends FunctionReference<"query">>(
+  preloaded: Preloaded<Query>,
+  options?: QueryOptions
+): Result.Result<FunctionReturnType<Query>, ConvexError>;
+export function usePreloadedQuery<Query extends FunctionReference<"query">, A, I>(
+  preloaded: Preloaded<Query>,
+  options?: { readonly schema?: Schema.Schema<A, I> } & QueryOptions
+): Result.Result<A, ConvexError | ParseError> {
+
+  const params = usePreloadedParams(preloaded, options?.schema, options);
+  const atom = React.useMemo(() => convexQueryFamily(params), [params]);
+
+  return useAtomValue(atom);
+}
+
+
+/**
+ * React hook for queries defined with `effectQuery` and preloaded in a Server
+ * Component with `preloadQuery`, see `usePreloadedQuery`.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param preloaded - The payload returned by `preloadQuery`
+ * @param options - The schema shared with the server that encodes the handler's Exit
+ */
+export const usePreloadedEffectQuery = <Query extends FunctionReference<"query">, A, E>(
+  preloaded: Preloaded<Query>,
+  options: { readonly schema: Schema.Schema<Exit.Exit<A, E>, FunctionReturnType<Query>> } & QueryOptions
+): Result.Result<A, E | ConvexError | ParseError> => {
+
+  const params = usePreloadedParams(preloaded, options.schema, options);
+  const atom = React.useMemo(() => convexEffectQueryFamily(params), [params]);
+
+  return useAtomValue(atom);
+};
+
+
+/**
+ * React hook reporting where a query's current value came from and whether
+ * the live subscription has confirmed it, e.g. to show a "cached data" hint.
+ * Pass the same arguments and options as to `useQuery` or `useEffectQuery` to
+ * observe the same subscription.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param query - The Convex query function reference
+ * @param args - Arguments for the query
+ * @param options - The schema the query is read with, if any
+ */
+export const useQueryProvenance = <Query extends FunctionReference<"query">, A = FunctionReturnType<Query>, I = A>(
+  query: Query,
+  args?: FunctionArgs<Query>,
+  options?: { readonly schema?: Schema.Schema<A, I> } & QueryOptions
+): Option.Option<QueryProvenance> => {
+
+  const client = useClient(options);
+
+  const params = makeQueryParams({
+    client,
+    query,
+    args,
+    schema: options?.schema,
+    lifetime: options?.lifetime,
+    waitingWhileDisconnected: options?.waitingWhileDisconnected,
+    persist: options?.persist
+  });
+  const atom = React.useMemo(() => convexQueryProvenanceFamily(params), [params]);
+
+  return useAtomValue(atom);
+};
+
+
+/**
+ * React hook for queries defined with `effectQuery`.
+ * The Result fails with the server's typed error when the handler fails.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param query - The Convex query function reference
+ * @param args - Arguments for the query
+ * @param options - The schema shared with the server that encodes the handler's Exit
+ */
+export const useEffectQuery = <Query extends FunctionReference<"query">, A, E>(
+  query: Query,
+  args: FunctionArgs<Query>,
+  options: { readonly schema: Schema.Schema<Exit.Exit<A, E>, FunctionReturnType<Query>> } & QueryOptions
+): Result.Result<A, E | ConvexError | ParseError> => {
+
+  const client = useClient(options);
+
+  const params = makeQueryParams({
+    client,
+    query,
+    args,
+    schema: options.schema,
+    lifetime: options.lifetime,
+    waitingWhileDisconnected: options.waitingWhileDisconnected,
+    persist: options.persist
+  });
+  const atom = React.useMemo(() => convexEffectQueryFamily(params), [params]);
+
+  return useAtomValue(atom);
+};
+
+
+/**
+ * React hook for Convex queries with React Suspense.
+ * Suspends until the query has a first value, live or from the persisted
+ * cache, and throws its `ConvexError` (or `ParseError`) to the nearest error
+ * boundary. Later updates re-render without suspending, and a transition
+ * keeps showing the current value while new args load.
+ *
+ * Avoid the `"immediate"` lifetime: the atom must outlive the suspended render.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param query - The Convex query function reference
+ * @param args - Optional arguments for the query
+ * @param options - An optional schema the result (live or cached) is decoded with, and client
+ */
+export function useQuerySuspense<Query extends FunctionReference<"query">, A, I>(
+  query: Query,
+  args: FunctionArgs<Query>,
+  options: { readonly schema: Schema.Schema<A, I> } & QueryOptions
+): A;
+export function useQuerySuspense<Query extends FunctionReference<"query">>(
+  query: Query,
+  args?: FunctionArgs<Query>,
+  options?: QueryOptions
+): FunctionReturnType<Query>;
+export function useQuerySuspense<Query extends FunctionReference<"query">, A, I>(
+  query: Query,
+  args?: FunctionArgs<Query>,
+  options?: { readonly schema?: Schema.Schema<A, I> } & QueryOptions
+): A {
+
+  const client = useClient(options);
+
+  const params = makeQueryParams({
+    client,
+    query,
+    args,
+    schema: options?.schema,
+    lifetime: options?.lifetime,
+    waitingWhileDisconnected: options?.waitingWhileDisconnected,
+    persist: options?.persist
+  });
+  const atom = React.useMemo(() => convexQueryFamily(params), [params]);
+
+  return useAtomSuspense(atom).value;
+}
+
+
+/**
+ * React hook for queries defined with `effectQuery`, with React Suspense.
+ * Throws the server's typed error to the nearest error boundary when the
+ * handler fails, see `useQuerySuspense`.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param query - The Convex query function reference
+ * @param args - Arguments for the query
+ * @param options - The schema shared with the server that encodes the handler's Exit
+ */
+export const useEffectQuerySuspense = <Query extends FunctionReference<"query">, A, E>(
+  query: Query,
+  args: FunctionArgs<Query>,
+  options: { readonly schema: Schema.Schema<Exit.Exit<A, E>, FunctionReturnType<Query>> } & QueryOptions
+): A => {
+
+  const client = useClient(options);
+
+  const params = makeQueryParams({
+    client,
+    query,
+    args,
+    schema: options.schema,
+    lifetime: options.lifetime,
+    waitingWhileDisconnected: options.waitingWhileDisconnected,
+    persist: options.persist
+  });
+  const atom = React.useMemo(() => convexEffectQueryFamily(params), [params]);
+
+  return useAtomSuspense(atom).value;
+};
+
+
+/**
+ * React hook for paginated Convex queries, the atom equivalent of Convex's
+ * `usePaginatedQuery`.
+ * Returns a Result with every loaded item and the pagination status, together
+ * with a function that loads more items.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param query - The Convex paginated query function reference
+ * @param args - Arguments for the query, excluding `paginationOpts`
+ * @param options - The number of items to load in the first page
+ */
+export const usePaginatedQuery = <Query extends PaginatedQueryReference>(
+  query: Query,
+  args: PaginatedQueryArgs<Query>,
+  options: { readonly initialNumItems: number } & Pick<QueryOptions, "client" | "lifetime" | "persist">
+): readonly [
+  Result.Result<PaginatedQueryResult<PaginatedQueryItem<Query>>, ConvexError | ParseError>,
+  (numItems: number) => void
+] => {
+
+  const client = useClient(options);
+
+  const params = makePaginatedQueryParams({
+    client,
+    query,
+    args,
+    initialNumItems: options.initialNumItems,
+    lifetime: options.lifetime,
+    persist: options.persist
+  });
+  const atom = React.useMemo(() => convexPaginatedQueryFamily(params), [params]);
+  const loadMoreAtom = React.useMemo(() => convexLoadMoreFamily(params), [params]);
+
+  return [useAtomValue(atom), useAtomSet(loadMoreAtom)] as const;
+};
+
+
+/**
+ * React hook for Convex mutations.
  * Returns an effectful function that executes the mutation.
  *
  * @since 0.1.0
  * @category Hooks
  *
  * @param mutation - The Convex mutation function reference
+ * @param options - An optional optimistic update, retry schedule, timeout and concurrency mode
  */
 export const useMutation = <Mutation extends FunctionReference<"mutation">>(
-  mutation: Mutation
+  mutation: Mutation,
+  options?: MutationOptions<Mutation>
 ) => {
 
-  const client = useConvex();
+  const client = useClient(options);
 
-  const params = makeMutationParams({ client, mutation });
+  const params = makeMutationParams({
+    client,
+    mutation,
+    optimisticUpdate: options?.optimisticUpdate,
+    retry: options?.retry,
+    retryWhile: options?.retryWhile,
+    timeout: options?.timeout,
+    concurrency: options?.concurrency
+  });
   const mutationAtom = React.useMemo(() => convexMutationFamily(params), [params]);
 
   return useAtom(mutationAtom, { mode: "promiseExit" });
 };
 
+
+/**
+ * React hook for mutations in queued mode, see `convexQueuedMutationFamily`.
+ * Returns an effectful function that takes the args and an optional
+ * idempotency key, and resolves once the call is persisted.
+ *
+ * Queued calls are only removed once Convex acknowledges them, so a call may
+ * be sent twice if the page closes in between: make queued mutations idempotent.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param mutation - The Convex mutation function reference
+ * @param options - An optional client, see `ClientOptions`
+ */
+export const useQueuedMutation = <Mutation extends FunctionReference<"mutation">>(
+  mutation: Mutation,
+  options?: ClientOptions
+) => {
+
+  const client = useClient(options);
+
+  const params = makeMutationParams({ client, mutation });
+  const mutationAtom = React.useMemo(() => convexQueuedMutationFamily(params), [params]);
+  useAtomMount(mutationQueueReplayFamily(client));
+
+  return useAtom(mutationAtom, { mode: "promiseExit" });
+};
+
+
+/**
+ * React hook for the mutation queue of a client: the pending and failed
+ * calls, and functions to retry or discard one by id.
+ * Mount it near the root of the app so queued calls are replayed as soon as
+ * the page loads.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param options - An optional client, see `ClientOptions`
+ */
+export const useMutationQueue = (options?: ClientOptions) => {
+
+  const client = useClient(options);
+
+  const entries = useAtomValue(convexMutationQueueFamily(client));
+  const retry = useAtomSet(convexRetryQueuedMutationFamily(client), { mode: "promiseExit" });
+  const discard = useAtomSet(convexDiscardQueuedMutationFamily(client), { mode: "promiseExit" });
+
+  return { entries, retry, discard } as const;
+};
+
+
+/**
+ * React hook for Convex actions.
+ * Returns an effectful function that executes the action.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param action - The Convex action function reference
+ * @param options - An optional client, see `ClientOptions`
+ */
+export const useAction = <Action extends FunctionReference<"action">>(
+  action: Action,
+  options?: ClientOptions
+) => {
+
+  const client = useClient(options);
+
+  const params = makeActionParams({ client, action });
+  const actionAtom = React.useMemo(() => convexActionFamily(params), [params]);
+
+  return useAtom(actionAtom, { mode: "promiseExit" });
+};
+
+
+/**
+ * React hook for the authentication state of a client, configured with
+ * `fetchToken` while the user is signed in. Passing `undefined` (e.g. once
+ * the auth provider reports a sign out) signs the client out, which purges
+ * the user's persisted results in every tab.
+ *
+ * The config is compared by reference, define it outside of render or
+ * memoize it to avoid re-authenticating on every render.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param config - How to fetch tokens, or `undefined` when signed out
+ * @param options - An optional client, see `ClientOptions`
+ */
+export const useAuth = (config: AuthConfig | undefined, options?: ClientOptions): AuthState => {
+
+  const client = useClient(options);
+
+  const configAtom = React.useMemo(() => convexAuthConfigFamily(client), [client]);
+  const setConfig = useAtomSet(configAtom);
+  // Configured during the first render, so queries never start out anonymous
+  useAtomInitialValues([[configAtom, Option.fromNullable(config)]]);
+  React.useEffect(() => setConfig(Option.fromNullable(config)), [setConfig, config]);
+
+  return useAuthState(options);
+};
+
+
+/**
+ * React hook reading the authentication state of a client, see `useAuth`.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param options - An optional client, see `ClientOptions`
+ */
+export const useAuthState = (options?: ClientOptions): AuthState => {
+
+  const client = useClient(options);
+
+  const atom = React.useMemo(() => convexAuthFamily(client), [client]);
+
+  return useAtomValue(atom);
+};
+
+
+/**
+ * React hook for the connection status of a client, see `convexConnectionFamily`.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param options - An optional client, see `ClientOptions`
+ */
+export const useConnectionStatus = (options?: ClientOptions): ConnectionStatus => {
+
+  const client = useClient(options);
+
+  const atom = React.useMemo(() => convexConnectionFamily(client), [client]);
+
+  return useAtomValue(atom);
+};
+
+
+/**
+ * React hook for purging the persisted query cache of the current client.
+ * Returns an effectful function that takes `"all"` or `"expired"`.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ */
+export const usePurgeQueryCache = (options?: ClientOptions) => {
+
+  const client = useClient(options);
+
+  const purgeAtom = React.useMemo(() => convexPurgeQueryCacheFamily(client), [client]);
+
+  return useAtom(purgeAtom, { mode: "promiseExit" });
+};
+
+
+/**
+ * React hook for devtools: the query and mutation atoms of the registry (see
+ * `inspectRegistry`) and the persisted results of the client, refreshed every
+ * second. Returns effectful functions invalidating a query and purging the
+ * cache with `"all"` or `"expired"`.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param options - An optional client, see `ClientOptions`
+ */
+export const useConvexInspection = (options?: ClientOptions) => {
+
+  const client = useClient(options);
+
+  const entriesAtom = React.useMemo(() => convexQueryCacheEntriesFamily(client), [client]);
+  const purgeAtom = React.useMemo(() => convexPurgeQueryCacheFamily(client), [client]);
+
+  const inspection = useAtomValue(convexInspectionAtom);
+  const cacheEntries = useAtomValue(entriesAtom);
+  const invalidate = useAtomSet(convexInvalidateQueryAtom, { mode: "promiseExit" });
+  const purge = useAtomSet(purgeAtom, { mode: "promiseExit" });
+
+  return { inspection, cacheEntries, invalidate, purge } as const;
+};
+
+
+/**
+ * React hook for mutations defined with `effectMutation`.
+ * The returned Exit fails with the server's typed error when the handler fails.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param mutation - The Convex mutation function reference
+ * @param options - The schema shared with the server, and the options of `useMutation`
+ */
+export const useEffectMutation = <Mutation extends FunctionReference<"mutation">, A, E>(
+  mutation: Mutation,
+  options: {
+    readonly schema: Schema.Schema<Exit.Exit<A, E>, FunctionReturnType<Mutation>>;
+  } & MutationOptions<Mutation>
+) => {
+
+  const client = useClient(options);
+
+  const params = makeMutationParams({
+    client,
+    mutation,
+    optimisticUpdate: options.optimisticUpdate,
+    schema: options.schema,
+    retry: options.retry,
+    retryWhile: options.retryWhile,
+    timeout: options.timeout,
+    concurrency: options.concurrency
+  });
+  const mutationAtom = React.useMemo(() => convexEffectMutationFamily(params), [params]);
+
+  return useAtom(mutationAtom, { mode: "promiseExit" });
+};
+
+
+/**
+ * React hook for actions defined with `effectAction`.
+ * The returned Exit fails with the server's typed error when the handler fails.
+ *
+ * @since 0.1.0
+ * @category Hooks
+ *
+ * @param action - The Convex action function reference
+ * @param options - The schema shared with the server that encodes the handler's Exit
+ */
+export const useEffectAction = <Action extends FunctionReference<"action">, A, E>(
+  action: Action,
+  options: { readonly schema: Schema.Schema<Exit.Exit<A, E>, FunctionReturnType<Action>> } & ClientOptions
+) => {
+
+  const client = useClient(options);
+
+  const params = makeActionParams({ client, action, schema: options.schema });
+  const actionAtom = React.useMemo(() => convexEffectActionFamily(params), [params]);
+
+  return useAtom(actionAtom, { mode: "promiseExit" });
+};
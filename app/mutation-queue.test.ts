@@ -0,0 +1,89 @@
+import * as Effect from "effect/Effect";
+import * as Layer from "effect/Layer";
+import * as Option from "effect/Option";
+import * as KeyValueStore from "@effect/platform/KeyValueStore";
+import { describe, expect, it } from "vitest";
+import * as MutationQueue from "./mutation-queue";
+
+const run = <A, E>(effect: Effect.Effect<A, E, KeyValueStore.KeyValueStore>) =>
+  Effect.runPromise(effect.pipe(Effect.provide(KeyValueStore.layerMemory)));
+
+// Yields before every operation, like IndexedDB or an encrypting store, so that
+// concurrent operations interleave
+const asyncStore = Layer.sync(KeyValueStore.KeyValueStore, () => {
+  const entries = new Map<string, string>();
+  return KeyValueStore.makeStringOnly({
+    get: (key) => Effect.sleep(0).pipe(Effect.map(() => Option.fromNullable(entries.get(key)))),
+    set: (key, value) => Effect.sleep(0).pipe(Effect.map(() => void entries.set(key, value))),
+    remove: (key) => Effect.sleep(0).pipe(Effect.map(() => void entries.delete(key))),
+    clear: Effect.sleep(0).pipe(Effect.map(() => entries.clear())),
+    size: Effect.sleep(0).pipe(Effect.map(() => entries.size))
+  });
+});
+
+const entry = (id: string): MutationQueue.QueuedMutation => ({
+  id,
+  functionName: "numbers:add",
+  args: { value: 1 },
+  enqueuedAt: 0,
+  status: "pending",
+  attempts: 0
+});
+
+describe("MutationQueue", () => {
+  it("keeps calls in order, once per id", () =>
+    run(Effect.gen(function* () {
+      const queue = yield* MutationQueue.make(crypto.randomUUID());
+      yield* queue.enqueue(entry("one"));
+      yield* queue.enqueue(entry("two"));
+      yield* queue.enqueue({ ...entry("one"), args: { value: 2 } });
+
+      expect((yield* queue.entries).map(({ id, args }) => ({ id, args }))).toEqual([
+        { id: "one", args: { value: 1 } },
+        { id: "two", args: { value: 1 } }
+      ]);
+    })));
+
+  it("updates and removes calls", () =>
+    run(Effect.gen(function* () {
+      const queue = yield* MutationQueue.make(crypto.randomUUID());
+      yield* queue.enqueue(entry("one"));
+      yield* queue.enqueue(entry("two"));
+
+      yield* queue.update("one", (entry) => ({ ...entry, status: "failed", error: "Too many numbers" }));
+      yield* queue.remove("two");
+
+      expect(yield* queue.entries).toEqual([{ ...entry("one"), status: "failed", error: "Too many numbers" }]);
+    })));
+
+  it("notifies listeners of every change, even those resubscribing meanwhile", () =>
+    run(Effect.gen(function* () {
+      const queue = yield* MutationQueue.make(crypto.randomUUID());
+      let notified = 0;
+      let unsubscribe = () => { };
+      const listen = (): void => {
+        notified++;
+        unsubscribe();
+        unsubscribe = Effect.runSync(queue.subscribe(listen));
+      };
+      unsubscribe = yield* queue.subscribe(listen);
+
+      yield* queue.enqueue(entry("one"));
+      yield* queue.remove("one");
+      unsubscribe();
+
+      expect(notified).toBe(2);
+    })));
+
+  it("keeps calls enqueued while others are removed from an asynchronous store", () =>
+    Effect.runPromise(Effect.gen(function* () {
+      const queue = yield* MutationQueue.make(crypto.randomUUID());
+      yield* queue.enqueue(entry("one"));
+
+      yield* Effect.all([queue.remove("one"), queue.enqueue(entry("two")), queue.enqueue(entry("three"))], {
+        concurrency: "unbounded"
+      });
+
+      expect((yield* queue.entries).map(({ id }) => id)).toEqual(["two", "three"]);
+    }).pipe(Effect.provide(asyncStore))));
+});
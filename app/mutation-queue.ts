@@ -0,0 +1,193 @@
+import * as Context from "effect/Context";
+import * as Effect from "effect/Effect";
+import type * as Exit from "effect/Exit";
+import * as Layer from "effect/Layer";
+import * as Option from "effect/Option";
+import * as Runtime from "effect/Runtime";
+import * as Schema from "effect/Schema";
+import * as KeyValueStore from "@effect/platform/KeyValueStore";
+import type { PlatformError } from "@effect/platform/Error";
+import { StorageBroadcast, StorageSubscription } from "./subscribeable-storage";
+
+/**
+ * A mutation call waiting to be sent, or that failed and waits for the user
+ * to retry or discard it
+ * @since 0.1.0
+ * @category Models
+ */
+export const QueuedMutation = Schema.Struct({
+  /**
+   * The idempotency key, a call enqueued twice with the same key is only sent once
+   */
+  id: Schema.String,
+  functionName: Schema.String,
+  /**
+   * The arguments in Convex's JSON format, see `convexToJson`
+   */
+  args: Schema.Unknown,
+  enqueuedAt: Schema.Number,
+  status: Schema.Literal("pending", "failed"),
+  attempts: Schema.Number,
+  error: Schema.optional(Schema.String)
+});
+
+/**
+ * @since 0.1.0
+ * @category Models
+ */
+export type QueuedMutation = typeof QueuedMutation.Type;
+
+const Entries = Schema.parseJson(Schema.Array(QueuedMutation));
+
+const decodeEntries = Schema.decodeOption(Entries);
+const encodeEntries = Schema.encodeSync(Entries);
+
+/**
+ * Persisted, ordered queue of mutation calls, shared by every tab
+ * @since 0.1.0
+ * @category Capabilities
+ */
+export class MutationQueue extends Context.Tag("@convex-atom/MutationQueue")<
+  MutationQueue,
+  {
+    readonly entries: Effect.Effect<ReadonlyArray<QueuedMutation>, PlatformError>;
+    /**
+     * Appends a call, unless one with the same id is already queued.
+     * Returns the queued entry.
+     */
+    readonly enqueue: (entry: QueuedMutation) => Effect.Effect<QueuedMutation, PlatformError>;
+    readonly update: (id: string, f: (entry: QueuedMutation) => QueuedMutation) => Effect.Effect<void, PlatformError>;
+    readonly remove: (id: string) => Effect.Effect<void, PlatformError>;
+    /**
+     * Listens for changes made by this tab or any other (through storage
+     * events or broadcasts, whichever the storage provides)
+     */
+    readonly subscribe: (listener: () => void) => Effect.Effect<() => void>;
+    /**
+     * Runs the effect while holding a lock shared by every tab, so that only one
+     * of them replays the queue at a time
+     */
+    readonly withLock: <A, E, R>(effect: Effect.Effect<A, E, R>) => Effect.Effect<A, E, R>;
+  }
+>() { }
+
+// Changes made by this tab, storage events only reach the other ones
+const localListeners = new Map<string, Set<() => void>>();
+
+// Every change reads the whole queue and writes it back, and with an
+// asynchronous store changes made by this tab would interleave and drop each
+// other's, so they take turns (other tabs also take the entries' Web Lock)
+const entriesLocks = new Map<string, Effect.Semaphore>();
+
+const entriesLock = (key: string) => {
+  let lock = entriesLocks.get(key);
+  if (lock === undefined) {
+    lock = Effect.unsafeMakeSemaphore(1);
+    entriesLocks.set(key, lock);
+  }
+  return lock;
+};
+
+// Interrupting the caller interrupts the effect, releasing the lock, or stops
+// waiting for the lock
+const withWebLock = (name: string) => <A, E, R>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+  typeof navigator === "undefined" || navigator.locks === undefined
+    ? effect
+    : Effect.runtime<R>().pipe(
+      Effect.flatMap((runtime) => Effect.async<A, E>((resume, signal) => {
+        const locked = async (): Promise<Exit.Exit<A, E>> =>
+          await navigator.locks.request(name, { signal }, () => Runtime.runPromiseExit(runtime)(effect, { signal }));
+        locked().then(resume, () => {
+          // Aborted while waiting for the lock
+        });
+      }))
+    );
+
+/**
+ * Builds the mutation queue of a namespace (the deployment URL for mutation
+ * atoms) on top of the KeyValueStore in context.
+ * Changes from other tabs are picked up when `StorageSubscription` or
+ * `StorageBroadcast` is provided.
+ *
+ * @since 0.1.0
+ * @category Constructors
+ */
+export const make = Effect.fn("MutationQueue.make")(function* (namespace: string) {
+  const kv = yield* KeyValueStore.KeyValueStore;
+  const broadcast = yield* Effect.serviceOption(StorageBroadcast);
+  const subscription = yield* Effect.serviceOption(StorageSubscription);
+
+  const key = `@convex-atom/mutations/${namespace}`;
+  const listeners = localListeners.get(key) ?? new Set<() => void>();
+  localListeners.set(key, listeners);
+
+  const entries = kv.get(key).pipe(
+    Effect.map((stored) => stored.pipe(
+      Option.flatMap(decodeEntries),
+      Option.getOrElse((): ReadonlyArray<QueuedMutation> => [])
+    ))
+  );
+
+  // Not the replay's lock, which is held while the replay removes and updates calls
+  const withEntriesLock = <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+    entriesLock(key).withPermits(1)(withWebLock(`${key}/entries`)(effect));
+
+  const write = (next: ReadonlyArray<QueuedMutation>) =>
+    Effect.gen(function* () {
+      const encoded = encodeEntries(next);
+      yield* next.length === 0 ? kv.remove(key) : kv.set(key, encoded);
+      // Listeners may resubscribe while notified, which a live Set would visit again
+      [...listeners].forEach((listener) => listener());
+      if (Option.isSome(broadcast)) {
+        yield* broadcast.value.post(key, encoded);
+      }
+    });
+
+  const modify = (f: (entries: ReadonlyArray<QueuedMutation>) => ReadonlyArray<QueuedMutation>) =>
+    withEntriesLock(Effect.flatMap(entries, (current) => write(f(current))));
+
+  return MutationQueue.of({
+    entries,
+
+    enqueue: Effect.fn("MutationQueue.enqueue")(function* (entry) {
+      return yield* withEntriesLock(Effect.gen(function* () {
+        const current = yield* entries;
+        const existing = current.find((queued) => queued.id === entry.id);
+        if (existing !== undefined) {
+          return existing;
+        }
+        yield* write([...current, entry]);
+        return entry;
+      }));
+    }),
+
+    update: (id, f) => modify((entries) => entries.map((entry) => entry.id === id ? f(entry) : entry)),
+
+    remove: (id) => modify((entries) => entries.filter((entry) => entry.id !== id)),
+
+    subscribe: Effect.fn("MutationQueue.subscribe")(function* (listener) {
+      listeners.add(listener);
+      const unsubscribeStorage = Option.isSome(subscription)
+        ? yield* subscription.value.subscribe(key, () => Effect.sync(listener))
+        : () => { };
+      const unsubscribeBroadcast = Option.isSome(broadcast)
+        ? yield* broadcast.value.subscribe(key, () => Effect.sync(listener))
+        : () => { };
+
+      return () => {
+        listeners.delete(listener);
+        unsubscribeStorage();
+        unsubscribeBroadcast();
+      };
+    }),
+
+    withLock: withWebLock(key)
+  });
+});
+
+/**
+ * Layer providing the mutation queue of a namespace
+ * @since 0.1.0
+ * @category Layers
+ */
+export const layer = (namespace: string) => Layer.effect(MutationQueue, make(namespace));
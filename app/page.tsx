@@ -5,13 +5,20 @@ import * as ConvexAtom from "@/app/convex-atom"
 import * as Result from "@effect-atom/atom/Result";
 import * as Option from "effect/Option"
 import * as Exit from "effect/Exit"
+import * as Schedule from "effect/Schedule"
+import { ListNumbersExit } from "@/convex/schemas"
 import Link from "next/link";
 import { pretty } from "effect/Cause";
-import { useAtom } from "@effect-atom/atom-react";
 
 export default function Home() {
+  const connection = ConvexAtom.useConnectionStatus();
   return (
     <>
+      {connection.status === "reconnecting" && (
+        <div className="bg-amber-200 text-amber-900 text-sm text-center p-2">
+          Connection lost, reconnecting... Numbers may be out of date.
+        </div>
+      )}
       <header className="sticky top-0 z-10 bg-background p-4 border-b-2 border-slate-200 dark:border-slate-800 flex flex-row justify-between items-center">
         <span>Convex + Next.js (Atom Version)</span>
         <Link
@@ -29,11 +36,35 @@ export default function Home() {
   );
 }
 
+// Shows the new number straight away, Convex rolls it back if the mutation fails.
+// The local store holds the encoded Exit that `listNumbers` sends over the wire.
+const addNumberOptimistically: ConvexAtom.OptimisticUpdate<typeof api.myFunctions.addNumber> = (args, store) =>
+  store.update(api.myFunctions.listNumbers, { count: 10 }, (current) =>
+    current._tag === "Success"
+      ? {
+        ...current,
+        value: { ...current.value, numbers: [...current.value.numbers, args.value].slice(-10) },
+      }
+      : current
+  )
+
+// Every click adds a number, in click order; dropped connections are retried
+// a few times, and a click gives up after ten seconds
+const addNumberPolicy = {
+  optimisticUpdate: addNumberOptimistically,
+  retry: Schedule.exponential("200 millis").pipe(Schedule.intersect(Schedule.recurs(3))),
+  timeout: "10 seconds",
+  concurrency: "queue",
+} satisfies ConvexAtom.MutationOptions<typeof api.myFunctions.addNumber>
+
 function Content() {
-  const listNumberResult = ConvexAtom.useQuery(api.myFunctions.listNumbers, {
+  const listNumberResult = ConvexAtom.useEffectQuery(api.myFunctions.listNumbers, {
     count: 10,
-  });
-  const [, addNumber] = ConvexAtom.useMutation(api.myFunctions.addNumber)
+  }, { schema: ListNumbersExit, waitingWhileDisconnected: true });
+  const provenance = ConvexAtom.useQueryProvenance(api.myFunctions.listNumbers, {
+    count: 10,
+  }, { schema: ListNumbersExit, waitingWhileDisconnected: true });
+  const [, addNumber] = ConvexAtom.useMutation(api.myFunctions.addNumber, addNumberPolicy)
 
   return Result.match(listNumberResult, {
     onInitial: () => (
@@ -47,10 +78,8 @@ function Content() {
       </div>
     ),
     onSuccess: (success) => {
-      // Handle Exit type from Convex function
-      const exitValue = success.value;
-
-      const { viewer, numbers } = exitValue;
+      // The Exit from the Convex function is already decoded, failures land in onFailure
+      const { viewer, numbers } = success.value;
       return (
         <div className="flex flex-col gap-8 max-w-lg mx-auto">
           <p>
@@ -61,6 +90,12 @@ function Content() {
             !
           </p>
 
+          {Option.isSome(provenance) && !provenance.value.confirmed && (
+            <p className="text-sm text-slate-500">
+              Showing {provenance.value.source === "tab" ? "data from another tab" : "cached data"}, waiting for Convex...
+            </p>
+          )}
+
           <p>
             Click the button below and open this page in another window - this data
             is persisted in the Convex cloud database!
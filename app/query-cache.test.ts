@@ -0,0 +1,148 @@
+import * as Effect from "effect/Effect";
+import * as Layer from "effect/Layer";
+import * as Metric from "effect/Metric";
+import * as Option from "effect/Option";
+import * as KeyValueStore from "@effect/platform/KeyValueStore";
+import { describe, expect, it } from "vitest";
+import * as QueryCache from "./query-cache";
+import * as Telemetry from "./telemetry";
+
+// Yields before every operation, like IndexedDB or an encrypting store, so that
+// concurrent operations interleave
+const asyncStore = Layer.sync(KeyValueStore.KeyValueStore, () => {
+  const entries = new Map<string, string>();
+  return KeyValueStore.makeStringOnly({
+    get: (key) => Effect.sleep(0).pipe(Effect.map(() => Option.fromNullable(entries.get(key)))),
+    set: (key, value) => Effect.sleep(0).pipe(Effect.map(() => void entries.set(key, value))),
+    remove: (key) => Effect.sleep(0).pipe(Effect.map(() => void entries.delete(key))),
+    clear: Effect.sleep(0).pipe(Effect.map(() => entries.clear())),
+    size: Effect.sleep(0).pipe(Effect.map(() => entries.size))
+  });
+});
+
+const run = <A, E>(effect: Effect.Effect<A, E, KeyValueStore.KeyValueStore>) =>
+  Effect.runPromise(effect.pipe(Effect.provide(KeyValueStore.layerMemory)));
+
+// Expired entries are purged once per namespace, so every test has a namespace of its own
+const policy = (options: QueryCache.QueryCacheOptions = {}) =>
+  QueryCache.makeQueryCachePolicy(`https://${crypto.randomUUID()}.convex.cloud`, options);
+
+describe("QueryCache", () => {
+  it("reads back what it wrote", () =>
+    run(Effect.gen(function* () {
+      const cache = yield* QueryCache.make(policy());
+      yield* cache.set("numbers", "[1,2]");
+      expect(yield* cache.get("numbers")).toEqual(Option.some("[1,2]"));
+      expect(yield* cache.get("viewer")).toEqual(Option.none());
+    })));
+
+  it("counts hits and misses", () =>
+    run(Effect.gen(function* () {
+      const cache = yield* QueryCache.make(policy());
+      const [hits, misses] = yield* Effect.all([Metric.value(Telemetry.cacheHits), Metric.value(Telemetry.cacheMisses)]);
+      yield* cache.set("numbers", "[1,2]");
+      yield* cache.get("numbers");
+      yield* cache.get("viewer");
+
+      expect((yield* Metric.value(Telemetry.cacheHits)).count).toBe(hits.count + 1);
+      expect((yield* Metric.value(Telemetry.cacheMisses)).count).toBe(misses.count + 1);
+    })));
+
+  it("drops expired entries and those of another version", () =>
+    run(Effect.gen(function* () {
+      const namespace = policy();
+      const v1 = yield* QueryCache.make({ ...namespace, version: "1" });
+      yield* v1.set("numbers", "[1,2]");
+
+      const v2 = yield* QueryCache.make({ ...namespace, version: "2" });
+      expect(yield* v2.get("numbers")).toEqual(Option.none());
+
+      const expired = yield* QueryCache.make(policy({ maxAge: 0 }));
+      yield* expired.set("numbers", "[1,2]");
+      expect(yield* expired.get("numbers")).toEqual(Option.none());
+    })));
+
+  it("evicts the least recently used entries beyond maxEntries", () =>
+    run(Effect.gen(function* () {
+      const cache = yield* QueryCache.make(policy({ maxEntries: 2 }));
+      // Entries are ordered by the millisecond they were last accessed
+      const tick = Effect.sleep("2 millis");
+      yield* cache.set("a", "1");
+      yield* tick;
+      yield* cache.set("b", "2");
+      yield* tick;
+      yield* cache.get("a");
+      yield* tick;
+      yield* cache.set("c", "3");
+
+      expect(yield* cache.get("a")).toEqual(Option.some("1"));
+      expect(yield* cache.get("b")).toEqual(Option.none());
+      expect(yield* cache.get("c")).toEqual(Option.some("3"));
+    })));
+
+  it("never overwrites an entry with an older version of its value, unless unversioned", () =>
+    run(Effect.gen(function* () {
+      const cache = yield* QueryCache.make(policy());
+      yield* cache.set("numbers", "[1,2,3]", 20);
+      yield* cache.set("numbers", "[1,2]", 10);
+      expect(yield* cache.get("numbers")).toEqual(Option.some("[1,2,3]"));
+
+      // Unversioned entries aren't ordered
+      yield* cache.set("numbers", "[1]");
+      expect(yield* cache.get("numbers")).toEqual(Option.some("[1]"));
+    })));
+
+  it("forgets the version of removed entries, and reads it back from those persisted", () =>
+    run(Effect.gen(function* () {
+      const namespace = policy();
+      const cache = yield* QueryCache.make(namespace);
+      yield* cache.set("numbers", "[1,2,3]", 20);
+      yield* cache.remove("numbers");
+      yield* cache.set("numbers", "[1,2]", 10);
+      expect(yield* cache.get("numbers")).toEqual(Option.some("[1,2]"));
+
+      const rebuilt = yield* QueryCache.make(namespace);
+      yield* rebuilt.get("numbers");
+      yield* rebuilt.set("numbers", "[1]", 5);
+      expect(yield* rebuilt.get("numbers")).toEqual(Option.some("[1,2]"));
+    })));
+
+  it("lists its entries, most recently used first", () =>
+    run(Effect.gen(function* () {
+      const cache = yield* QueryCache.make(policy({ maxAge: "20 millis" }));
+      yield* cache.set("a", "1");
+      yield* Effect.sleep("25 millis");
+      yield* cache.set("b", "22");
+
+      const entries = yield* cache.entries;
+      expect(entries.map(({ key, stale }) => ({ key, stale }))).toEqual([
+        { key: "b", stale: false },
+        { key: "a", stale: true }
+      ]);
+      expect(entries[0].bytes).toBeGreaterThan(entries[1].bytes);
+    })));
+
+  it("purges every entry of its namespace only", () =>
+    run(Effect.gen(function* () {
+      const cache = yield* QueryCache.make(policy());
+      const other = yield* QueryCache.make(policy());
+      yield* cache.set("a", "1");
+      yield* other.set("a", "2");
+
+      yield* cache.purge;
+      expect(yield* cache.get("a")).toEqual(Option.none());
+      expect(yield* other.get("a")).toEqual(Option.some("2"));
+    })));
+
+  it("keeps every entry written concurrently to an asynchronous store", () =>
+    Effect.runPromise(Effect.gen(function* () {
+      const namespace = policy();
+      // Every subscription builds a cache of its own
+      const [first, second] = yield* Effect.all([QueryCache.make(namespace), QueryCache.make(namespace)]);
+      yield* Effect.all([first.set("a", "1"), second.set("b", "2")], { concurrency: "unbounded" });
+
+      expect((yield* first.entries).map((entry) => entry.key).sort()).toEqual(["a", "b"]);
+      expect(yield* second.get("a")).toEqual(Option.some("1"));
+      expect(yield* first.get("b")).toEqual(Option.some("2"));
+    }).pipe(Effect.provide(asyncStore))));
+});
@@ -0,0 +1,434 @@
+import * as Clock from "effect/Clock";
+import * as Context from "effect/Context";
+import * as Duration from "effect/Duration";
+import * as Effect from "effect/Effect";
+import * as Layer from "effect/Layer";
+import * as Metric from "effect/Metric";
+import * as Option from "effect/Option";
+import * as Schema from "effect/Schema";
+import * as KeyValueStore from "@effect/platform/KeyValueStore";
+import type { PlatformError } from "@effect/platform/Error";
+import { isQuotaExceeded, StorageBroadcast, StorageKeys, StorageSubscription, tabId } from "./subscribeable-storage";
+import * as Telemetry from "./telemetry";
+
+/**
+ * How persisted query results are namespaced, versioned and bounded
+ * @since 0.1.0
+ * @category Models
+ */
+export interface QueryCachePolicy {
+  /**
+   * Isolates the entries of one deployment from every other
+   */
+  readonly namespace: string;
+  /**
+   * Entries written under another version are never read, bump it whenever the
+   * shape of cached results changes
+   */
+  readonly version: string;
+  readonly maxAge: Duration.Duration;
+  readonly maxEntries: number;
+  /**
+   * Upper bound for the stored entries, counted as UTF-16 bytes like browser storage quotas
+   */
+  readonly maxBytes: number;
+}
+
+/**
+ * Overrides for the default query cache policy
+ * @since 0.1.0
+ * @category Models
+ */
+export interface QueryCacheOptions {
+  /**
+   * Further isolates entries, e.g. per app sharing an origin with another
+   */
+  readonly namespace?: string;
+  readonly version?: string;
+  readonly maxAge?: Duration.DurationInput;
+  readonly maxEntries?: number;
+  readonly maxBytes?: number;
+  /**
+   * Whether queries without a `persist` option are persisted, `true` by
+   * default; set it to `false` to only persist the queries that opt in
+   */
+  readonly persistByDefault?: boolean;
+}
+
+/**
+ * Resolves the policy for a deployment, always namespacing entries by its URL
+ * (within the namespace of the options, if any)
+ * @since 0.1.0
+ * @category Models
+ */
+export const makeQueryCachePolicy = (deploymentUrl: string, options: QueryCacheOptions = {}): QueryCachePolicy => ({
+  namespace: options.namespace === undefined ? deploymentUrl : `${options.namespace}/${deploymentUrl}`,
+  version: options.version ?? "1",
+  maxAge: Duration.decode(options.maxAge ?? Duration.days(7)),
+  maxEntries: options.maxEntries ?? 200,
+  maxBytes: options.maxBytes ?? 2 * 1024 * 1024
+});
+
+/**
+ * An entry of the query cache, as listed by `QueryCache.entries`
+ * @since 0.1.0
+ * @category Models
+ */
+export interface QueryCacheEntry {
+  readonly key: string;
+  readonly storedAt: number;
+  readonly accessedAt: number;
+  /**
+   * Size of the stored entry, counted like the policy's `maxBytes`
+   */
+  readonly bytes: number;
+  /**
+   * Whether the entry is expired or was written by another version, it is
+   * dropped on its next read
+   */
+  readonly stale: boolean;
+}
+
+/**
+ * Persisted query results, kept under a cache policy and shared with other tabs
+ * @since 0.1.0
+ * @category Capabilities
+ */
+export class QueryCache extends Context.Tag("@convex-atom/QueryCache")<
+  QueryCache,
+  {
+    /**
+     * Reads an entry, dropping it if it is expired or was written by another version
+     */
+    readonly get: (key: string) => Effect.Effect<Option.Option<string>, PlatformError>;
+    /**
+     * Writes an entry, evicting the least recently used entries to stay within
+     * the policy's bounds (or the storage quota), and broadcasts it to other tabs.
+     * A versioned entry older than the latest version this cache wrote, read
+     * or received for its key is dropped; unversioned entries are always
+     * written. Removed, evicted and purged entries are forgotten with their version.
+     */
+    readonly set: (key: string, value: string, version?: number) => Effect.Effect<void, PlatformError>;
+    /**
+     * Listens for entries written by other tabs, skipping those older than the
+     * latest version of the key
+     */
+    readonly subscribe: (key: string, listener: (value: string) => Effect.Effect<void>) => Effect.Effect<() => void>;
+    readonly remove: (key: string) => Effect.Effect<void, PlatformError>;
+    /**
+     * Lists the entries of the namespace, most recently used first
+     */
+    readonly entries: Effect.Effect<ReadonlyArray<QueryCacheEntry>, PlatformError>;
+    /**
+     * Drops every expired entry and every entry written by another version
+     */
+    readonly purgeExpired: Effect.Effect<void, PlatformError>;
+    /**
+     * Drops every entry of the namespace, including those missing from its
+     * index when the storage backend provides `StorageKeys`
+     */
+    readonly purge: Effect.Effect<void, PlatformError>;
+  }
+>() { }
+
+const Envelope = Schema.parseJson(Schema.Struct({
+  version: Schema.String,
+  storedAt: Schema.Number,
+  value: Schema.String,
+  /**
+   * Tells the entries of a namespace apart from those of the namespaces
+   * nested in it, which share its key prefix
+   */
+  namespace: Schema.optional(Schema.String),
+  /**
+   * The tab that wrote the entry, and the version of its value
+   */
+  origin: Schema.optional(Schema.String),
+  valueVersion: Schema.optional(Schema.Number)
+}));
+
+const IndexEntry = Schema.Struct({
+  version: Schema.String,
+  storedAt: Schema.Number,
+  accessedAt: Schema.Number,
+  bytes: Schema.Number
+});
+type IndexEntry = typeof IndexEntry.Type;
+
+const Index = Schema.parseJson(Schema.Record({ key: Schema.String, value: IndexEntry }));
+type Index = typeof Index.Type;
+
+const decodeEnvelope = Schema.decodeOption(Envelope);
+const encodeEnvelope = Schema.encodeSync(Envelope);
+const decodeIndex = Schema.decodeOption(Index);
+const encodeIndex = Schema.encodeSync(Index);
+
+const byteSize = (value: string) => value.length * 2;
+
+// Every cache of a namespace reads, changes and writes back the same index, and
+// with an asynchronous store their updates would interleave and drop each
+// other's changes, so they take turns
+const indexLocks = new Map<string, Effect.Semaphore>();
+
+const indexLock = (indexKey: string) => {
+  let lock = indexLocks.get(indexKey);
+  if (lock === undefined) {
+    lock = Effect.unsafeMakeSemaphore(1);
+    indexLocks.set(indexKey, lock);
+  }
+  return lock;
+};
+
+// The namespaces whose expired entries were purged (or are being purged) by this page
+const purgedNamespaces = new Set<string>();
+
+/**
+ * Builds a query cache on top of the KeyValueStore in context.
+ * Storage events and broadcasts are picked up when those capabilities are provided.
+ *
+ * Entries are wrapped with the version and time they were written, and an
+ * index of every entry in the namespace drives expiry and LRU eviction.
+ * Expired entries are purged when the first cache of a namespace is built.
+ *
+ * @since 0.1.0
+ * @category Constructors
+ */
+export const make = Effect.fn("QueryCache.make")(function* (policy: QueryCachePolicy) {
+  const kv = yield* KeyValueStore.KeyValueStore;
+  const broadcast = yield* Effect.serviceOption(StorageBroadcast);
+  const subscription = yield* Effect.serviceOption(StorageSubscription);
+  const keys = yield* Effect.serviceOption(StorageKeys);
+
+  const prefix = `@convex-atom/${policy.namespace}/`;
+  const indexKey = `${prefix}#index`;
+  const storageKey = (key: string) => prefix + key;
+  const maxAge = Duration.toMillis(policy.maxAge);
+  const withIndexLock = indexLock(indexKey).withPermits(1);
+
+  const isFresh = (entry: { readonly version: string; readonly storedAt: number }, now: number) =>
+    entry.version === policy.version && now - entry.storedAt < maxAge;
+
+  // The latest value version this cache wrote, read or received for each key,
+  // forgotten along with the entry
+  const latestVersions = new Map<string, number>();
+
+  const isStale = (key: string, version: number) => version < (latestVersions.get(key) ?? -Infinity);
+
+  const observeVersion = (key: string, version: number | undefined) => {
+    if (version !== undefined && !isStale(key, version)) {
+      latestVersions.set(key, version);
+    }
+  };
+
+  const readIndex = kv.get(indexKey).pipe(
+    Effect.map((stored) => stored.pipe(Option.flatMap(decodeIndex), Option.getOrElse((): Index => ({}))))
+  );
+
+  const writeIndex = (index: Index) =>
+    Object.keys(index).length === 0 ? kv.remove(indexKey) : kv.set(indexKey, encodeIndex(index));
+
+  const removeAll = (index: Index, keys: ReadonlyArray<string>) =>
+    Effect.gen(function* () {
+      yield* Effect.forEach(keys, (key) => kv.remove(storageKey(key)), { discard: true });
+      keys.forEach((key) => latestVersions.delete(key));
+      yield* writeIndex(Object.fromEntries(Object.entries(index).filter(([key]) => !keys.includes(key))));
+    });
+
+  const remove = (key: string) => readIndex.pipe(
+    Effect.flatMap((index) => removeAll(index, [key])),
+    withIndexLock,
+    Effect.withSpan("QueryCache.remove", { attributes: { "convex.cacheKey": key } })
+  );
+
+  // Least recently used first, never including the entry being written
+  const evictionOrder = (index: Index, keep: string) =>
+    Object.entries(index)
+      .filter(([key]) => key !== keep)
+      .sort(([, a], [, b]) => a.accessedAt - b.accessedAt);
+
+  const evictOldest = (keep: string) =>
+    Effect.gen(function* () {
+      const index = yield* readIndex;
+      const oldest = evictionOrder(index, keep)[0];
+      if (oldest === undefined) {
+        return false;
+      }
+      yield* removeAll(index, [oldest[0]]);
+      return true;
+    });
+
+  // Makes room for an entry while the storage quota is exhausted, by evicting
+  // and retrying until nothing is left to evict
+  const write = (key: string, stored: string): Effect.Effect<void, PlatformError> =>
+    kv.set(storageKey(key), stored).pipe(
+      Effect.catchIf(isQuotaExceeded, (error) => evictOldest(key).pipe(
+        Effect.flatMap((evicted) => evicted ? write(key, stored) : Effect.fail(error))
+      ))
+    );
+
+  const enforceBounds = (index: Index, keep: string) => {
+    let entries = Object.keys(index).length;
+    let bytes = Object.values(index).reduce((total, entry) => total + entry.bytes, 0);
+    const evicted: Array<string> = [];
+
+    for (const [key, entry] of evictionOrder(index, keep)) {
+      if (entries <= policy.maxEntries && bytes <= policy.maxBytes) {
+        break;
+      }
+      evicted.push(key);
+      entries -= 1;
+      bytes -= entry.bytes;
+    }
+
+    return removeAll(index, evicted);
+  };
+
+  const purgeExpired = Effect.gen(function* () {
+    const now = yield* Clock.currentTimeMillis;
+    const index = yield* readIndex;
+    const expired = Object.entries(index)
+      .filter(([, entry]) => !isFresh(entry, now))
+      .map(([key]) => key);
+    if (expired.length > 0) {
+      yield* removeAll(index, expired);
+    }
+  }).pipe(withIndexLock, Effect.withSpan("QueryCache.purgeExpired"));
+
+  if (!purgedNamespaces.has(indexKey)) {
+    purgedNamespaces.add(indexKey);
+    yield* purgeExpired.pipe(Effect.tapError(() => Effect.sync(() => purgedNamespaces.delete(indexKey))));
+  }
+
+  return QueryCache.of({
+    get: Effect.fn("QueryCache.get")(function* (key) {
+      yield* Effect.annotateCurrentSpan("convex.cacheKey", key);
+      const now = yield* Clock.currentTimeMillis;
+      const value = yield* Effect.gen(function* () {
+        const stored = yield* kv.get(storageKey(key));
+        if (Option.isNone(stored)) {
+          return Option.none<string>();
+        }
+
+        const envelope = decodeEnvelope(stored.value).pipe(Option.filter((envelope) => isFresh(envelope, now)));
+        const index = yield* readIndex;
+        if (Option.isNone(envelope)) {
+          // Expired or from another version
+          yield* removeAll(index, [key]);
+          return Option.none<string>();
+        }
+
+        observeVersion(key, envelope.value.valueVersion);
+        // An entry missing from the index (e.g. written by a page closed before
+        // indexing it) is indexed now, so that it is bounded and expires
+        const entry = index[key] ?? { version: policy.version, storedAt: envelope.value.storedAt, bytes: byteSize(stored.value) };
+        yield* writeIndex({ ...index, [key]: { ...entry, accessedAt: now } });
+        return Option.some(envelope.value.value);
+      }).pipe(withIndexLock);
+
+      yield* Metric.increment(Option.isSome(value) ? Telemetry.cacheHits : Telemetry.cacheMisses);
+      return value;
+    }),
+
+    set: Effect.fn("QueryCache.set")(function* (key, value, version) {
+      yield* Effect.annotateCurrentSpan("convex.cacheKey", key);
+      const now = yield* Clock.currentTimeMillis;
+      if (version !== undefined && isStale(key, version)) {
+        return;
+      }
+      observeVersion(key, version);
+      const stored = encodeEnvelope({
+        version: policy.version,
+        storedAt: now,
+        value,
+        namespace: policy.namespace,
+        origin: tabId,
+        valueVersion: version
+      });
+
+      const entry: IndexEntry = { version: policy.version, storedAt: now, accessedAt: now, bytes: byteSize(stored) };
+      yield* Effect.gen(function* () {
+        yield* write(key, stored);
+        const index = { ...(yield* readIndex), [key]: entry };
+        yield* writeIndex(index);
+        yield* enforceBounds(index, key);
+      }).pipe(withIndexLock);
+
+      if (Option.isSome(broadcast)) {
+        yield* broadcast.value.post(storageKey(key), stored, version);
+      }
+    }),
+
+    subscribe: Effect.fn("QueryCache.subscribe")(function* (key, listener) {
+      const onStored = (stored: string) => Clock.currentTimeMillis.pipe(
+        Effect.flatMap((now) => {
+          const envelope = decodeEnvelope(stored).pipe(
+            Option.filter((envelope) => isFresh(envelope, now) && envelope.origin !== tabId)
+          );
+          if (Option.isNone(envelope)) {
+            return Effect.void;
+          }
+          const { value, valueVersion } = envelope.value;
+          if (valueVersion !== undefined && isStale(key, valueVersion)) {
+            return Effect.void;
+          }
+          observeVersion(key, valueVersion);
+          return listener(value);
+        })
+      );
+
+      const unsubscribeStorage = Option.isSome(subscription)
+        ? yield* subscription.value.subscribe(storageKey(key), onStored)
+        : () => { };
+      const unsubscribeBroadcast = Option.isSome(broadcast)
+        ? yield* broadcast.value.subscribe(storageKey(key), onStored)
+        : () => { };
+
+      return () => {
+        unsubscribeStorage();
+        unsubscribeBroadcast();
+      };
+    }),
+
+    remove,
+
+    entries: Effect.all([Clock.currentTimeMillis, readIndex]).pipe(
+      Effect.map(([now, index]) => Object.entries(index)
+        .sort(([, a], [, b]) => b.accessedAt - a.accessedAt)
+        .map(([key, entry]): QueryCacheEntry => ({
+          key,
+          storedAt: entry.storedAt,
+          accessedAt: entry.accessedAt,
+          bytes: entry.bytes,
+          stale: !isFresh(entry, now)
+        }))
+      ),
+      Effect.withSpan("QueryCache.entries")
+    ),
+
+    purgeExpired,
+
+    purge: Effect.gen(function* () {
+      // Backends that can list their keys are scanned as well, for entries the
+      // index lost track of
+      if (Option.isSome(keys)) {
+        const stored = yield* keys.value.list(prefix);
+        yield* Effect.forEach(stored, (key) => kv.get(key).pipe(
+          Effect.flatMap((value) => value.pipe(
+            Option.flatMap(decodeEnvelope),
+            Option.exists((envelope) => envelope.namespace === policy.namespace)
+          ) ? kv.remove(key) : Effect.void)
+        ), { discard: true });
+      }
+      latestVersions.clear();
+      const index = yield* readIndex;
+      yield* removeAll(index, Object.keys(index));
+    }).pipe(withIndexLock, Effect.withSpan("QueryCache.purge"))
+  });
+});
+
+/**
+ * Layer providing a query cache for the given policy
+ * @since 0.1.0
+ * @category Layers
+ */
+export const layer = (policy: QueryCachePolicy) => Layer.effect(QueryCache, make(policy));
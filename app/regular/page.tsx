@@ -2,7 +2,6 @@
 
 import { api } from "../../convex/_generated/api";
 import { useQuery, useMutation } from "convex/react";
-import * as Option from "effect/Option"
 import Link from "next/link";
 
 export default function RegularPage() {
@@ -39,15 +38,21 @@ function Content() {
     );
   }
 
-  const { viewer, numbers } = listNumberResult
+  // listNumbers returns its encoded Exit, which plain Convex hooks hand over as-is
+  if (listNumberResult._tag === "Failure") {
+    return (
+      <div className="mx-auto">
+        <p className="text-red-600">Error loading numbers</p>
+      </div>
+    );
+  }
+
+  const { viewer, numbers } = listNumberResult.value
 
   return (
     <div className="flex flex-col gap-8 max-w-lg mx-auto">
       <p>
-        {Option.match(viewer, {
-          onNone: () => "Welcome Anonymous",
-          onSome: (v) => "Welcome " + v,
-        })}
+        {viewer._tag === "Some" ? "Welcome " + viewer.value : "Welcome Anonymous"}
         !
       </p>
       <p>
@@ -1,21 +1,32 @@
 "use client";
 
-import { Preloaded, useMutation, usePreloadedQuery } from "convex/react";
+import { Preloaded } from "convex/react";
+import * as Result from "@effect-atom/atom/Result";
+import { pretty } from "effect/Cause";
 import { api } from "../../convex/_generated/api";
+import { ListNumbersExit } from "@/convex/schemas";
+import * as ConvexAtom from "@/app/convex-atom";
 
 export default function Home({
   preloaded,
 }: {
   preloaded: Preloaded<typeof api.myFunctions.listNumbers>;
 }) {
-  const data = usePreloadedQuery(preloaded);
-  const addNumber = useMutation(api.myFunctions.addNumber);
+  // Starts as Success with the server-fetched value, then stays live
+  const result = ConvexAtom.usePreloadedEffectQuery(preloaded, { schema: ListNumbersExit });
+  const [, addNumber] = ConvexAtom.useMutation(api.myFunctions.addNumber);
   return (
     <>
       <div className="flex flex-col gap-4 bg-slate-200 dark:bg-slate-800 p-4 rounded-md">
         <h2 className="text-xl font-bold">Reactive client-loaded data</h2>
         <code>
-          <pre>{JSON.stringify(data, null, 2)}</pre>
+          <pre>
+            {Result.match(result, {
+              onInitial: () => "loading...",
+              onFailure: (error) => pretty(error.cause),
+              onSuccess: (success) => JSON.stringify(success.value, null, 2),
+            })}
+          </pre>
         </code>
       </div>
       <button
@@ -0,0 +1,106 @@
+import * as Context from "effect/Context";
+import * as Effect from "effect/Effect";
+import * as Layer from "effect/Layer";
+import * as Option from "effect/Option";
+import * as KeyValueStore from "@effect/platform/KeyValueStore";
+import { describe, expect, it, vi } from "vitest";
+import * as SubscribeableStorage from "./subscribeable-storage";
+import { eventually, flush, makeMemoryStorage } from "./test-kit";
+
+const { StorageBroadcast } = SubscribeableStorage;
+
+// Builds the layer as one more tab
+const tab = (storage: SubscribeableStorage.StorageLayer) => Layer.build(storage);
+
+describe("makeStorageBroadcast", () => {
+  it("delivers messages to the other origins only, dropping older versions", () =>
+    Effect.runPromise(Effect.scoped(Effect.gen(function* () {
+      const channel = `@convex-atom/test/${crypto.randomUUID()}`;
+      const first = yield* SubscribeableStorage.makeStorageBroadcast(channel, "first");
+      const second = yield* SubscribeableStorage.makeStorageBroadcast(channel, "second");
+      const received: Array<string> = [];
+      const own: Array<string> = [];
+      yield* second.subscribe("numbers", (value) => Effect.sync(() => received.push(value)));
+      yield* first.subscribe("numbers", (value) => Effect.sync(() => own.push(value)));
+
+      yield* first.post("numbers", "[1,2,3]", 20);
+      yield* Effect.promise(() => eventually(() => received.length > 0));
+      yield* first.post("numbers", "[1,2]", 10);
+      yield* Effect.promise(flush);
+
+      expect(received).toEqual(["[1,2,3]"]);
+      expect(own).toEqual([]);
+    }))));
+});
+
+describe("layerEncrypted", () => {
+  it("stores values encrypted and reads them back", () =>
+    Effect.runPromise(Effect.scoped(Effect.gen(function* () {
+      const key = yield* SubscribeableStorage.deriveEncryptionKey("secret", "user");
+      const raw = yield* tab(KeyValueStore.layerMemory);
+      const encrypted = yield* tab(SubscribeableStorage.layerEncrypted(Layer.succeedContext(raw), { key }));
+      const kv = Context.get(encrypted, KeyValueStore.KeyValueStore);
+
+      yield* kv.set("viewer", "ada");
+      expect(yield* kv.get("viewer")).toEqual(Option.some("ada"));
+
+      const stored = yield* Context.get(raw, KeyValueStore.KeyValueStore).get("viewer");
+      expect(Option.isSome(stored)).toBe(true);
+      expect(Option.getOrThrow(stored)).not.toContain("ada");
+    }))));
+
+  it("reads values it can't decrypt as missing", () =>
+    Effect.runPromise(Effect.scoped(Effect.gen(function* () {
+      const raw = yield* tab(KeyValueStore.layerMemory);
+      const withKey = (secret: string) => SubscribeableStorage.deriveEncryptionKey(secret, "user").pipe(
+        Effect.flatMap((key) => tab(SubscribeableStorage.layerEncrypted(Layer.succeedContext(raw), { key }))),
+        Effect.map((context) => Context.get(context, KeyValueStore.KeyValueStore))
+      );
+
+      yield* Context.get(raw, KeyValueStore.KeyValueStore).set("plain", "ada");
+      yield* (yield* withKey("first")).set("viewer", "ada");
+
+      const second = yield* withKey("second");
+      expect(yield* second.get("viewer")).toEqual(Option.none());
+      expect(yield* second.get("plain")).toEqual(Option.none());
+
+      // Nor a value moved to another key
+      const first = yield* withKey("first");
+      const moved = yield* Context.get(raw, KeyValueStore.KeyValueStore).get("viewer");
+      yield* Context.get(raw, KeyValueStore.KeyValueStore).set("admin", Option.getOrThrow(moved));
+      expect(yield* first.get("viewer")).toEqual(Option.some("ada"));
+      expect(yield* first.get("admin")).toEqual(Option.none());
+    }))));
+
+  it("fails with a SystemError when the page key can't be generated, generating it again next time", () =>
+    Effect.runPromise(Effect.scoped(Effect.gen(function* () {
+      const generateKey = vi.spyOn(crypto.subtle, "generateKey")
+        .mockRejectedValueOnce(new DOMException("Not a secure context", "NotSupportedError"));
+      const storage = SubscribeableStorage.layerEncrypted(KeyValueStore.layerMemory);
+
+      const failed = yield* Effect.flip(tab(storage));
+      expect(failed).toMatchObject({ _tag: "SystemError", method: "generateKey" });
+
+      const kv = Context.get(yield* tab(storage), KeyValueStore.KeyValueStore);
+      yield* kv.set("viewer", "ada");
+      expect(yield* kv.get("viewer")).toEqual(Option.some("ada"));
+      expect(generateKey).toHaveBeenCalledTimes(2);
+      generateKey.mockRestore();
+    }))));
+
+  it("encrypts what it broadcasts, for tabs sharing the key", () =>
+    Effect.runPromise(Effect.scoped(Effect.gen(function* () {
+      const key = yield* SubscribeableStorage.deriveEncryptionKey("secret", "user");
+      const storage = SubscribeableStorage.layerEncrypted(makeMemoryStorage(), { key });
+      // Storage layers only promise a KeyValueStore, the memory one broadcasts too
+      const first = Context.unsafeGet(yield* tab(storage), StorageBroadcast);
+      const second = Context.unsafeGet(yield* tab(storage), StorageBroadcast);
+      const received: Array<string> = [];
+      yield* second.subscribe("viewer", (value) => Effect.sync(() => received.push(value)));
+
+      yield* first.post("viewer", "ada");
+      yield* Effect.promise(() => eventually(() => received.length > 0));
+
+      expect(received).toEqual(["ada"]);
+    }))));
+});
@@ -1,7 +1,31 @@
 import * as Context from "effect/Context";
 import * as Effect from "effect/Effect";
+import * as Either from "effect/Either";
+import * as Encoding from "effect/Encoding";
 import * as Layer from "effect/Layer";
-import { BrowserKeyValueStore } from "@effect/platform-browser";
+import * as Option from "effect/Option";
+import * as Schema from "effect/Schema";
+import * as KeyValueStore from "@effect/platform/KeyValueStore";
+import * as PlatformError from "@effect/platform/Error";
+
+/**
+ * A storage backend for persisted query results and the mutation queue: a
+ * KeyValueStore, with `StorageBroadcast` and `StorageSubscription` when it
+ * can share changes with other tabs, and `StorageKeys` when it can list its keys.
+ * Building it fails when the backend can't be opened, e.g. IndexedDB or
+ * encryption without WebCrypto.
+ * @since 0.1.0
+ * @category Models
+ */
+export type StorageLayer = Layer.Layer<KeyValueStore.KeyValueStore, PlatformError.PlatformError>;
+
+/**
+ * Identifies this tab as the origin of what it writes and broadcasts, so that
+ * it can ignore its own changes when other tabs echo them
+ * @since 0.1.0
+ * @category Models
+ */
+export const tabId = typeof crypto === "undefined" ? "server" : crypto.randomUUID();
 
 /**
  * Capability for broadcasting storage changes across browser contexts
@@ -11,7 +35,15 @@ import { BrowserKeyValueStore } from "@effect/platform-browser";
 export class StorageBroadcast extends Context.Tag("@convex-atom/StorageBroadcast")<
   StorageBroadcast,
   {
-    readonly post: (key: string, value: string) => Effect.Effect<void>;
+    /**
+     * Posts a value to the other tabs. Versioned values (e.g. the Convex
+     * snapshot timestamp of a query result) are ordered per key: values older
+     * than the latest one this tab posted or received are dropped.
+     */
+    readonly post: (key: string, value: string, version?: number) => Effect.Effect<void>;
+    /**
+     * Listens for values posted by other tabs, never by this one
+     */
     readonly subscribe: (key: string, listener: (value: string) => Effect.Effect<void>) => Effect.Effect<() => void>;
   }
 >() { }
@@ -29,32 +61,108 @@ export class StorageSubscription extends Context.Tag("@convex-atom/StorageSubscr
 >() { }
 
 /**
- * Layer providing BroadcastChannel-based storage broadcasting
+ * Capability for listing the keys of a storage backend, which a KeyValueStore
+ * can't do
  * @since 0.1.0
- * @category Layers
+ * @category Capabilities
+ */
+export class StorageKeys extends Context.Tag("@convex-atom/StorageKeys")<
+  StorageKeys,
+  {
+    /**
+     * Lists the stored keys starting with the prefix
+     */
+    readonly list: (prefix: string) => Effect.Effect<ReadonlyArray<string>, PlatformError.PlatformError>;
+  }
+>() { }
+
+const BroadcastMessage = Schema.Struct({
+  key: Schema.String,
+  value: Schema.String,
+  origin: Schema.String,
+  version: Schema.optional(Schema.Number)
+});
+
+const decodeMessage = Schema.decodeUnknownOption(BroadcastMessage);
+const encodeMessage = Schema.encodeSync(BroadcastMessage);
+
+/**
+ * Builds a storage broadcast over a BroadcastChannel, open for the lifetime of
+ * the scope. Messages carry the origin they are posted from and, optionally, a
+ * version; those from the same origin are ignored.
+ * @since 0.1.0
+ * @category Constructors
  */
-export const BrowserStorageBroadcastLive = Layer.sync(StorageBroadcast, () => {
-  const channel = new BroadcastChannel("@convex-atom");
+export const makeStorageBroadcast = Effect.fn("makeStorageBroadcast")(function* (name: string, origin: string) {
+  const listeners = new Map<string, Set<(value: string) => Effect.Effect<void>>>();
+  // The latest version posted or received for each key
+  const versions = new Map<string, number>();
+
+  const isStale = (key: string, version: number | undefined) =>
+    version !== undefined && version < (versions.get(key) ?? -Infinity);
+
+  const onBroadcast = (event: MessageEvent) => {
+    const message = decodeMessage(event.data);
+    if (Option.isNone(message)) {
+      return;
+    }
+    const { key, value, version } = message.value;
+    if (message.value.origin === origin || isStale(key, version)) {
+      return;
+    }
+    if (version !== undefined) {
+      versions.set(key, version);
+    }
+    listeners.get(key)?.forEach((listener) => listener(value).pipe(Effect.runSync));
+  };
+
+  const channel = yield* Effect.acquireRelease(
+    Effect.sync(() => {
+      const channel = new BroadcastChannel(name);
+      channel.addEventListener("message", onBroadcast);
+      return channel;
+    }),
+    (channel) => Effect.sync(() => channel.close())
+  );
 
   return StorageBroadcast.of({
-    post: (key, value) => Effect.sync(() => channel.postMessage({ key, value }))
-      .pipe(Effect.withSpan("StorageBroadcast.post")),
+    post: (key, value, version) => Effect.sync(() => {
+      if (isStale(key, version)) {
+        return;
+      }
+      if (version !== undefined) {
+        versions.set(key, version);
+      }
+      channel.postMessage(encodeMessage({ key, value, origin, version }));
+    }).pipe(Effect.withSpan("StorageBroadcast.post")),
 
     subscribe: Effect.fn("StorageBroadcast.subscribe")(function* (key, listener) {
-      const onBroadcast = (event: MessageEvent) => {
-        if (event.data && event.data.key === key && typeof event.data.value === "string") {
-          listener(event.data.value).pipe(Effect.runSync)
-        }
-      }
+      const keyListeners = listeners.get(key) ?? new Set();
+      listeners.set(key, keyListeners);
+      keyListeners.add(listener);
 
-      channel.addEventListener("message", onBroadcast);
-      return () => channel.removeEventListener("message", onBroadcast);
+      return () => {
+        keyListeners.delete(listener);
+        if (keyListeners.size === 0) {
+          listeners.delete(key);
+        }
+      };
     })
   });
 });
 
 /**
- * Layer providing storage event subscription
+ * Layer providing BroadcastChannel-based storage broadcasting between the
+ * tabs of an origin
+ * @since 0.1.0
+ * @category Layers
+ */
+export const BrowserStorageBroadcastLive = Layer.scoped(StorageBroadcast, makeStorageBroadcast("@convex-atom", tabId));
+
+/**
+ * Layer providing localStorage event subscription. Storage events carry no
+ * origin or version, values that need them must embed them (as persisted
+ * query results do).
  * @since 0.1.0
  * @category Layers
  */
@@ -62,7 +170,12 @@ export const BrowserStorageSubscriptionLive = Layer.sync(StorageSubscription, ()
   StorageSubscription.of({
     subscribe: Effect.fn("StorageSubscription.subscribe")(function* (key, listener) {
       const onStorage = (event: StorageEvent) => {
-        if (event.key === key && event.newValue && event.newValue !== event.oldValue) {
+        if (
+          event.storageArea === localStorage &&
+          event.key === key &&
+          event.newValue &&
+          event.newValue !== event.oldValue
+        ) {
           listener(event.newValue).pipe(Effect.runSync);
         }
       };
@@ -73,14 +186,391 @@ export const BrowserStorageSubscriptionLive = Layer.sync(StorageSubscription, ()
   })
 );
 
+const storageError = (method: string, pathOrDescriptor: string, cause: unknown) =>
+  new PlatformError.SystemError({
+    reason: "Unknown",
+    module: "KeyValueStore",
+    method,
+    pathOrDescriptor,
+    description: `Storage ${method} failed`,
+    cause
+  });
+
+/**
+ * Whether a storage operation failed because the storage quota is exhausted,
+ * as opposed to storage being unavailable or the value being invalid
+ * @since 0.1.0
+ * @category Predicates
+ */
+export const isQuotaExceeded = (error: PlatformError.PlatformError): boolean =>
+  error.cause instanceof DOMException &&
+  (error.cause.name === "QuotaExceededError" || error.cause.name === "NS_ERROR_DOM_QUOTA_REACHED");
+
+/**
+ * Builds a KeyValueStore on top of a Web Storage area. Unlike the platform's,
+ * it keeps the DOMException a failed operation threw as the error's cause, see
+ * `isQuotaExceeded`.
+ * @since 0.1.0
+ * @category Constructors
+ */
+export const makeWebStorageKeyValueStore = (storage: Storage) =>
+  KeyValueStore.makeStringOnly({
+    get: (key) => Effect.try({
+      try: () => Option.fromNullable(storage.getItem(key)),
+      catch: (cause) => storageError("get", key, cause)
+    }),
+    set: (key, value) => Effect.try({
+      try: () => storage.setItem(key, value),
+      catch: (cause) => storageError("set", key, cause)
+    }),
+    remove: (key) => Effect.try({
+      try: () => storage.removeItem(key),
+      catch: (cause) => storageError("remove", key, cause)
+    }),
+    clear: Effect.try({
+      try: () => storage.clear(),
+      catch: (cause) => storageError("clear", "clear", cause)
+    }),
+    size: Effect.try({
+      try: () => storage.length,
+      catch: (cause) => storageError("size", "size", cause)
+    })
+  });
+
+const webStorageKeys = (storage: Storage) =>
+  StorageKeys.of({
+    list: (prefix) => Effect.try({
+      try: () => Array.from({ length: storage.length }, (_, i) => storage.key(i))
+        .filter((key): key is string => key !== null && key.startsWith(prefix)),
+      catch: (cause) => storageError("list", prefix, cause)
+    })
+  });
+
 /**
  * Combined layer providing both storage subscription and broadcasting
  * @since 0.1.0
  * @category Layers
  */
 export const layerLocalStorage = Layer.mergeAll(
-  BrowserKeyValueStore.layerLocalStorage,
+  Layer.sync(KeyValueStore.KeyValueStore, () => makeWebStorageKeyValueStore(localStorage)),
+  Layer.sync(StorageKeys, () => webStorageKeys(localStorage)),
   BrowserStorageBroadcastLive,
   BrowserStorageSubscriptionLive
 );
 
+
+/**
+ * Layer storing entries in sessionStorage, private to each tab
+ * @since 0.1.0
+ * @category Layers
+ */
+export const layerSessionStorage = Layer.mergeAll(
+  Layer.sync(KeyValueStore.KeyValueStore, () => makeWebStorageKeyValueStore(sessionStorage)),
+  Layer.sync(StorageKeys, () => webStorageKeys(sessionStorage))
+);
+
+/**
+ * Options for the IndexedDB storage backend
+ * @since 0.1.0
+ * @category Models
+ */
+export interface IndexedDbOptions {
+  readonly database?: string;
+  readonly objectStore?: string;
+}
+
+const indexedDbError = (method: string, pathOrDescriptor: string, cause: unknown) =>
+  new PlatformError.SystemError({
+    reason: "Unknown",
+    module: "KeyValueStore",
+    method,
+    pathOrDescriptor,
+    description: `IndexedDB ${method} failed`,
+    cause
+  });
+
+// Opens the database at its current version, or upgrades it to `version`,
+// creating the object store if it is missing
+const openIndexedDb = (database: string, objectStore: string, version?: number) =>
+  Effect.async<IDBDatabase, PlatformError.PlatformError>((resume) => {
+    let blocked = false;
+    const request = indexedDB.open(database, version);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(objectStore)) {
+        request.result.createObjectStore(objectStore);
+      }
+    };
+    request.onsuccess = () => {
+      if (blocked) {
+        request.result.close();
+      } else {
+        resume(Effect.succeed(request.result));
+      }
+    };
+    request.onerror = () => resume(Effect.fail(indexedDbError("open", database, request.error)));
+    // A connection that doesn't close for the upgrade (e.g. of a tab running an
+    // older build) would keep it waiting indefinitely, fail instead
+    request.onblocked = () => {
+      blocked = true;
+      resume(Effect.fail(indexedDbError("open", database, new DOMException(
+        `Upgrading ${database} is blocked by a connection of another tab`,
+        "BlockedError"
+      ))));
+    };
+  });
+
+// Opens the object store for the lifetime of the scope, returning how to run
+// requests against it
+const acquireIndexedDb = (options: IndexedDbOptions) => {
+  const database = options.database ?? "@convex-atom";
+  const objectStore = options.objectStore ?? "entries";
+
+  return Effect.acquireRelease(
+    openIndexedDb(database, objectStore).pipe(
+      Effect.flatMap((db) => {
+        if (db.objectStoreNames.contains(objectStore)) {
+          return Effect.succeed(db);
+        }
+        db.close();
+        return openIndexedDb(database, objectStore, db.version + 1);
+      }),
+      Effect.tap((db) => Effect.sync(() => {
+        // Let other tabs upgrade the database for object stores of their own
+        db.onversionchange = () => db.close();
+      }))
+    ),
+    (db) => Effect.sync(() => db.close())
+  ).pipe(
+    // Settles once the transaction does: a request can succeed and its
+    // transaction still abort, e.g. when it exceeds the storage quota
+    Effect.map((db) => <A>(method: string, key: string, mode: IDBTransactionMode, f: (store: IDBObjectStore) => IDBRequest<A>) =>
+      Effect.async<A, PlatformError.PlatformError>((resume) => {
+        let transaction: IDBTransaction;
+        let request: IDBRequest<A>;
+        try {
+          transaction = db.transaction(objectStore, mode);
+          request = f(transaction.objectStore(objectStore));
+        } catch (cause) {
+          // The object store is missing or the connection was closed
+          resume(Effect.fail(indexedDbError(method, key, cause)));
+          return;
+        }
+        transaction.oncomplete = () => resume(Effect.succeed(request.result));
+        transaction.onerror = transaction.onabort = () =>
+          resume(Effect.fail(indexedDbError(method, key, transaction.error ?? request.error)));
+      })
+    )
+  );
+};
+
+type IndexedDbRunner = Effect.Effect.Success<ReturnType<typeof acquireIndexedDb>>;
+
+const indexedDbKeyValueStore = (run: IndexedDbRunner) =>
+  KeyValueStore.makeStringOnly({
+    get: (key) => run("get", key, "readonly", (store) => store.get(key)).pipe(
+      Effect.map((value: unknown) => typeof value === "string" ? Option.some(value) : Option.none())
+    ),
+    set: (key, value) => Effect.asVoid(run("set", key, "readwrite", (store) => store.put(value, key))),
+    remove: (key) => Effect.asVoid(run("remove", key, "readwrite", (store) => store.delete(key))),
+    clear: Effect.asVoid(run("clear", "clear", "readwrite", (store) => store.clear())),
+    size: run("size", "size", "readonly", (store) => store.count())
+  });
+
+/**
+ * Builds a KeyValueStore on top of an IndexedDB object store, opening the
+ * database for the lifetime of the layer. The database is upgraded when the
+ * object store doesn't exist yet.
+ * @since 0.1.0
+ * @category Constructors
+ */
+export const makeIndexedDbKeyValueStore = Effect.fn("makeIndexedDbKeyValueStore")(function* (
+  options: IndexedDbOptions = {}
+) {
+  return indexedDbKeyValueStore(yield* acquireIndexedDb(options));
+});
+
+/**
+ * Layer storing entries in IndexedDB, which holds far more than
+ * localStorage. IndexedDB has no change events, so changes reach other tabs
+ * through `StorageBroadcast` only.
+ * @since 0.1.0
+ * @category Layers
+ */
+export const layerIndexedDb = (options: IndexedDbOptions = {}) => Layer.mergeAll(
+  Layer.scopedContext(acquireIndexedDb(options).pipe(
+    Effect.map((run) => Context.make(KeyValueStore.KeyValueStore, indexedDbKeyValueStore(run)).pipe(
+      Context.add(StorageKeys, StorageKeys.of({
+        list: (prefix) => run("list", prefix, "readonly", (store) => store.getAllKeys(IDBKeyRange.bound(prefix, `${prefix}\uffff`))).pipe(
+          Effect.map((keys) => keys.filter((key): key is string => typeof key === "string"))
+        )
+      }))
+    ))
+  )),
+  BrowserStorageBroadcastLive
+);
+
+/**
+ * Options for encrypting a storage backend
+ * @since 0.1.0
+ * @category Models
+ */
+export interface EncryptionOptions {
+  /**
+   * The AES-GCM key values are encrypted with, e.g. from `deriveEncryptionKey`.
+   * Defaults to a key generated for the lifetime of the page, which no script
+   * can read but which doesn't survive a reload: pair it with
+   * `layerSessionStorage`, or supply a key to share persisted results across
+   * reloads and tabs.
+   */
+  readonly key?: CryptoKey;
+}
+
+const encryptionError = (method: string, pathOrDescriptor: string, cause: unknown) =>
+  new PlatformError.SystemError({
+    reason: "Unknown",
+    module: "KeyValueStore",
+    method,
+    pathOrDescriptor,
+    description: `Encryption ${method} failed`,
+    cause
+  });
+
+/**
+ * Derives an AES-GCM key from a secret supplied by the app (e.g. one issued by
+ * the backend per user session) with HKDF. The key can't be exported.
+ * @since 0.1.0
+ * @category Constructors
+ */
+export const deriveEncryptionKey = (secret: string, salt: string) =>
+  Effect.tryPromise({
+    try: async () => {
+      const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(secret), "HKDF", false, ["deriveKey"]);
+      return await crypto.subtle.deriveKey(
+        { name: "HKDF", hash: "SHA-256", salt: new TextEncoder().encode(salt), info: new TextEncoder().encode("@convex-atom") },
+        material,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+      );
+    },
+    catch: (cause) => encryptionError("deriveKey", salt, cause)
+  }).pipe(Effect.withSpan("deriveEncryptionKey"));
+
+let pageKey: Promise<CryptoKey> | undefined;
+
+// Only fails without WebCrypto, i.e. outside of secure contexts, in which case
+// the next layer tries again
+const generatePageKey = Effect.tryPromise({
+  try: () => {
+    pageKey ??= crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]).catch((cause) => {
+      pageKey = undefined;
+      throw cause;
+    });
+    return pageKey;
+  },
+  catch: (cause) => encryptionError("generateKey", "page", cause)
+});
+
+// Stored as `<iv>.<ciphertext>`, both base64, with a fresh IV for every value.
+// The storage key is authenticated along with the value, so that a value moved
+// to another key can't be decrypted there.
+const makeCipher = (cryptoKey: CryptoKey) => ({
+  encrypt: (key: string, plaintext: string) => Effect.tryPromise({
+    try: async () => {
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(key) },
+        cryptoKey,
+        new TextEncoder().encode(plaintext)
+      );
+      return `${Encoding.encodeBase64(iv)}.${Encoding.encodeBase64(new Uint8Array(ciphertext))}`;
+    },
+    catch: (cause) => encryptionError("encrypt", key, cause)
+  }),
+
+  // Values that weren't encrypted with this key and for this storage key (or at
+  // all) can't be read
+  decrypt: (key: string, stored: string) => Effect.promise(async () => {
+    const [iv, ciphertext] = stored.split(".").map((part) => Encoding.decodeBase64(part));
+    if (iv === undefined || ciphertext === undefined || Either.isLeft(iv) || Either.isLeft(ciphertext)) {
+      return Option.none<string>();
+    }
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: new Uint8Array(iv.right), additionalData: new TextEncoder().encode(key) },
+        cryptoKey,
+        new Uint8Array(ciphertext.right)
+      );
+      return Option.some(new TextDecoder().decode(plaintext));
+    } catch {
+      return Option.none<string>();
+    }
+  })
+});
+
+type Cipher = ReturnType<typeof makeCipher>;
+
+// The underlying listeners run synchronously, decrypted values are delivered
+// in the order they arrived
+const decryptingListener = (cipher: Cipher, key: string, listener: (value: string) => Effect.Effect<void>) => {
+  let delivered = Promise.resolve();
+  return (stored: string) => Effect.sync(() => {
+    delivered = delivered.then(() => cipher.decrypt(key, stored).pipe(
+      Effect.flatMap(Option.match({ onNone: () => Effect.void, onSome: listener })),
+      Effect.runPromise
+    ));
+  });
+};
+
+/**
+ * Wraps a storage backend so that values are encrypted at rest with AES-GCM,
+ * along with what it broadcasts to other tabs. Keys are stored as they are,
+ * and values that can't be decrypted (written with another key, under another
+ * storage key, or before encryption was enabled) read as missing.
+ * @since 0.1.0
+ * @category Layers
+ */
+export const layerEncrypted = (storage: StorageLayer, options: EncryptionOptions = {}): StorageLayer =>
+  Layer.scopedContext(Effect.gen(function* () {
+    const context = yield* Layer.build(storage);
+    const cipher = makeCipher(options.key ?? (yield* generatePageKey));
+    const kv = Context.get(context, KeyValueStore.KeyValueStore);
+    const broadcast = Context.getOption(context, StorageBroadcast);
+    const subscription = Context.getOption(context, StorageSubscription);
+    const keys = Context.getOption(context, StorageKeys);
+
+    const encrypted = Context.make(KeyValueStore.KeyValueStore, KeyValueStore.makeStringOnly({
+      get: (key) => kv.get(key).pipe(
+        Effect.flatMap((stored) => Option.isSome(stored) ? cipher.decrypt(key, stored.value) : Effect.succeedNone)
+      ),
+      set: (key, value) => cipher.encrypt(key, value).pipe(Effect.flatMap((stored) => kv.set(key, stored))),
+      remove: kv.remove,
+      clear: kv.clear,
+      size: kv.size
+    }));
+
+    return encrypted.pipe(
+      Context.merge(Option.match(broadcast, {
+        onNone: () => Context.empty(),
+        onSome: (broadcast) => Context.make(StorageBroadcast, StorageBroadcast.of({
+          // A value that can't be encrypted isn't shared
+          post: (key, value, version) => cipher.encrypt(key, value).pipe(
+            Effect.flatMap((stored) => broadcast.post(key, stored, version)),
+            Effect.catchAll((error) => Effect.logWarning(`Failed to encrypt broadcast for key ${key}`, error))
+          ),
+          subscribe: (key, listener) => broadcast.subscribe(key, decryptingListener(cipher, key, listener))
+        }))
+      })),
+      Context.merge(Option.match(subscription, {
+        onNone: () => Context.empty(),
+        onSome: (subscription) => Context.make(StorageSubscription, StorageSubscription.of({
+          subscribe: (key, listener) => subscription.subscribe(key, decryptingListener(cipher, key, listener))
+        }))
+      })),
+      // Keys aren't encrypted
+      Context.merge(Option.match(keys, {
+        onNone: () => Context.empty(),
+        onSome: (keys) => Context.make(StorageKeys, keys)
+      }))
+    );
+  }));
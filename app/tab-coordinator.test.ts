@@ -0,0 +1,113 @@
+import * as Context from "effect/Context";
+import * as Effect from "effect/Effect";
+import * as Layer from "effect/Layer";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { StorageBroadcast } from "./subscribeable-storage";
+import * as TabCoordinator from "./tab-coordinator";
+import { FakeLockManager, eventually, flush, makeMemoryStorage } from "./test-kit";
+
+describe("TabCoordinator", () => {
+  // Each build of the memory storage is a tab of its own
+  it("relays the leader's subscriptions to followers, until the last one leaves", () =>
+    Effect.runPromise(Effect.scoped(Effect.gen(function* () {
+      const storage = makeMemoryStorage();
+      const coordinator = (context: Context.Context<StorageBroadcast>) =>
+        TabCoordinator.make("https://fake.convex.cloud").pipe(Effect.provide(context));
+      const leader = yield* coordinator(yield* Layer.build(storage));
+      const follower = yield* coordinator(yield* Layer.build(storage));
+
+      const watching: Array<string> = [];
+      yield* leader.serve((request, emit) => {
+        watching.push(request.key);
+        emit({ _tag: "Value", value: request.args }, 1);
+        return () => {
+          watching.splice(watching.indexOf(request.key), 1);
+        };
+      });
+
+      const received: Array<TabCoordinator.SubscriptionMessage> = [];
+      const request = { key: "numbers", functionName: "numbers:list", args: { count: 10 } };
+      const stopFirst = yield* follower.follow(request, (message) => received.push(message));
+      const stopSecond = yield* follower.follow(request, () => { });
+      yield* Effect.promise(() => eventually(() => watching.length > 0 && received.length > 0));
+
+      expect(watching).toEqual(["numbers"]);
+      // Followers joining get the latest value again
+      expect(new Set(received.map((message) => JSON.stringify(message)))).toEqual(
+        new Set([JSON.stringify({ _tag: "Value", value: { count: 10 } })])
+      );
+
+      stopFirst();
+      yield* Effect.promise(flush);
+      expect(watching).toEqual(["numbers"]);
+
+      stopSecond();
+      yield* Effect.promise(() => eventually(() => watching.length === 0));
+      expect(watching).toEqual([]);
+    }))));
+
+  it("leads on its own without Web Locks", () =>
+    Effect.runPromise(Effect.scoped(Effect.gen(function* () {
+      const coordinator = yield* TabCoordinator.make("https://fake.convex.cloud").pipe(
+        Effect.provide(yield* Layer.build(makeMemoryStorage()))
+      );
+      const roles: Array<boolean> = [];
+      const stop = yield* coordinator.elect((isLeader) => roles.push(isLeader));
+      stop();
+
+      expect(roles).toEqual([true]);
+    }))));
+
+  describe("with Web Locks", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const coordinator = (storage: ReturnType<typeof makeMemoryStorage>) => Effect.flatMap(
+      Layer.build(storage),
+      (context) => TabCoordinator.make("https://fake.convex.cloud").pipe(Effect.provide(context))
+    );
+
+    it("fails leadership over once the leader stops campaigning", () =>
+      Effect.runPromise(Effect.scoped(Effect.gen(function* () {
+        vi.stubGlobal("navigator", { locks: new FakeLockManager() });
+        const storage = makeMemoryStorage();
+        const first = yield* coordinator(storage);
+        const second = yield* coordinator(storage);
+
+        const roles: Array<string> = [];
+        const stopFirst = yield* first.elect((isLeader) => roles.push(`first: ${isLeader}`));
+        yield* Effect.promise(() => eventually(() => roles.length === 1));
+        yield* second.elect((isLeader) => roles.push(`second: ${isLeader}`));
+        yield* Effect.promise(() => eventually(() => roles.length === 2));
+
+        stopFirst();
+        yield* Effect.promise(() => eventually(() => roles.length === 3));
+        expect(roles).toEqual(["first: true", "second: false", "second: true"]);
+      }))));
+
+    it("drops the subscriptions of a follower as soon as it is gone", () =>
+      Effect.runPromise(Effect.scoped(Effect.gen(function* () {
+        vi.stubGlobal("navigator", { locks: new FakeLockManager() });
+        const storage = makeMemoryStorage();
+        const leader = yield* coordinator(storage);
+        const watching: Array<string> = [];
+        yield* leader.serve((request) => {
+          watching.push(request.key);
+          return () => {
+            watching.splice(watching.indexOf(request.key), 1);
+          };
+        });
+
+        // A follower whose tab closes without releasing its subscription
+        yield* Effect.scoped(Effect.gen(function* () {
+          const follower = yield* coordinator(storage);
+          yield* follower.follow({ key: "numbers", functionName: "numbers:list", args: { count: 10 } }, () => { });
+          yield* Effect.promise(() => eventually(() => watching.length > 0));
+        }));
+
+        yield* Effect.promise(() => eventually(() => watching.length === 0));
+        expect(watching).toEqual([]);
+      }))));
+  });
+});
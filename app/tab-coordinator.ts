@@ -0,0 +1,280 @@
+import * as Context from "effect/Context";
+import * as Effect from "effect/Effect";
+import * as Layer from "effect/Layer";
+import * as Option from "effect/Option";
+import * as Schema from "effect/Schema";
+import { StorageBroadcast, tabId } from "./subscribeable-storage";
+
+/**
+ * A live query a follower tab asks the leader for, with its args in Convex's
+ * JSON format (see `convexToJson`)
+ * @since 0.1.0
+ * @category Models
+ */
+export interface SubscriptionRequest {
+  readonly key: string;
+  readonly functionName: string;
+  readonly args: unknown;
+}
+
+/**
+ * What the leader sends for a subscription: each new value (in Convex's JSON
+ * format), or the message of the error the query failed with
+ * @since 0.1.0
+ * @category Models
+ */
+export const SubscriptionMessage = Schema.Union(
+  Schema.TaggedStruct("Value", { value: Schema.Unknown }),
+  Schema.TaggedStruct("Error", { message: Schema.String })
+);
+
+/**
+ * @since 0.1.0
+ * @category Models
+ */
+export type SubscriptionMessage = typeof SubscriptionMessage.Type;
+
+/**
+ * Elects one tab per namespace to hold the live subscriptions, and relays
+ * them to every other tab over `StorageBroadcast`
+ * @since 0.1.0
+ * @category Capabilities
+ */
+export class TabCoordinator extends Context.Tag("@convex-atom/TabCoordinator")<
+  TabCoordinator,
+  {
+    /**
+     * Campaigns for leadership until the returned function is called,
+     * reporting whether this tab leads whenever that changes. Leadership
+     * passes to another tab when the leader closes.
+     */
+    readonly elect: (onChange: (isLeader: boolean) => void) => Effect.Effect<() => void>;
+    /**
+     * Serves the subscriptions of followers while this tab leads. `watch`
+     * starts one subscription, shared by every follower asking for its key,
+     * and returns how to stop it. Messages emitted with a version (e.g. the
+     * Convex snapshot timestamp) never overwrite newer ones in followers.
+     */
+    readonly serve: (
+      watch: (
+        request: SubscriptionRequest,
+        emit: (message: SubscriptionMessage, version?: number) => void
+      ) => () => void
+    ) => Effect.Effect<() => void>;
+    /**
+     * Asks the leader for a subscription, again whenever leadership changes,
+     * until the returned function is called
+     */
+    readonly follow: (
+      request: SubscriptionRequest,
+      listener: (message: SubscriptionMessage) => void
+    ) => Effect.Effect<() => void>;
+  }
+>() { }
+
+const Request = Schema.parseJson(Schema.Struct({
+  subscriber: Schema.String,
+  key: Schema.String,
+  functionName: Schema.String,
+  args: Schema.Unknown
+}));
+
+const Release = Schema.parseJson(Schema.Struct({
+  subscriber: Schema.String,
+  key: Schema.String
+}));
+
+const Message = Schema.parseJson(SubscriptionMessage);
+
+const decodeRequest = Schema.decodeOption(Request);
+const encodeRequest = Schema.encodeSync(Request);
+const decodeRelease = Schema.decodeOption(Release);
+const encodeRelease = Schema.encodeSync(Release);
+const decodeMessage = Schema.decodeOption(Message);
+const encodeMessage = Schema.encodeSync(Message);
+
+const hasLocks = () => typeof navigator !== "undefined" && navigator.locks !== undefined;
+
+const tabLockPrefix = "@convex-atom/tab/";
+let coordinatorCount = 0;
+let subscriberCount = 0;
+
+// Held for the life of a coordinator, so that the leader learns when a
+// follower is gone (its tab closed, or it stopped following) by being granted it
+const holdLock = (name: string) => Effect.acquireRelease(
+  Effect.async<() => void>((resume) => {
+    void navigator.locks.request(name, () => new Promise<void>((release) => resume(Effect.succeed(release))));
+  }),
+  (release) => Effect.sync(release)
+);
+
+// Subscribers are `<coordinator>#<n>`
+const coordinatorOf = (subscriber: string) => subscriber.split("#")[0];
+
+/**
+ * Builds the tab coordinator of a namespace on top of the `StorageBroadcast`
+ * in context.
+ *
+ * Leadership is a Web Lock, so it fails over as soon as the leader closes.
+ * Every coordinator also holds a Web Lock of its own until its scope closes,
+ * and followers that close without releasing their subscriptions are dropped
+ * as soon as the leader is granted theirs. Without Web Locks every tab leads.
+ *
+ * @since 0.1.0
+ * @category Constructors
+ */
+export const make = Effect.fn("TabCoordinator.make")(function* (namespace: string) {
+  const broadcast = yield* StorageBroadcast;
+  const coordinatorId = `${tabId}/${++coordinatorCount}`;
+  if (hasLocks()) {
+    yield* holdLock(tabLockPrefix + coordinatorId);
+  }
+
+  const prefix = `@convex-atom/tabs/${namespace}`;
+  const leaderLock = `${prefix}/leader`;
+  const subscribeKey = `${prefix}/subscribe`;
+  const releaseKey = `${prefix}/release`;
+  const helloKey = `${prefix}/hello`;
+  const resultKey = (key: string) => `${prefix}/result/${key}`;
+
+  return TabCoordinator.of({
+    elect: (onChange) => Effect.sync(() => {
+      if (!hasLocks()) {
+        onChange(true);
+        return () => { };
+      }
+
+      const controller = new AbortController();
+      let release = () => { };
+      const lead = () => new Promise<void>((resolve) => {
+        release = resolve;
+        onChange(true);
+      });
+
+      // Settle the role straight away, then queue up in case the leader closes
+      void navigator.locks.request(leaderLock, { ifAvailable: true }, (lock) => {
+        if (lock !== null) {
+          return lead();
+        }
+        onChange(false);
+        return navigator.locks.request(leaderLock, { signal: controller.signal }, lead).catch(() => { });
+      });
+
+      return () => {
+        controller.abort();
+        release();
+      };
+    }),
+
+    serve: Effect.fn("TabCoordinator.serve")(function* (watch) {
+      const subscriptions = new Map<string, {
+        readonly subscribers: Set<string>;
+        readonly stop: () => void;
+        last: Option.Option<{ readonly encoded: string; readonly version: number | undefined }>;
+      }>();
+
+      const post = (key: string, encoded: string, version: number | undefined) =>
+        broadcast.post(resultKey(key), encoded, version).pipe(Effect.runFork);
+
+      const release = (subscriber: string, key: string) => {
+        const subscription = subscriptions.get(key);
+        if (subscription === undefined) {
+          return;
+        }
+        subscription.subscribers.delete(subscriber);
+        if (subscription.subscribers.size === 0) {
+          subscription.stop();
+          subscriptions.delete(key);
+        }
+      };
+
+      // The followers whose lock this leader waits for
+      const followers = new Map<string, AbortController>();
+
+      const watchFollower = (follower: string) => {
+        if (!hasLocks() || followers.has(follower)) {
+          return;
+        }
+        const controller = new AbortController();
+        followers.set(follower, controller);
+        navigator.locks.request(tabLockPrefix + follower, { signal: controller.signal }, () => {
+          followers.delete(follower);
+          for (const [key, subscription] of subscriptions) {
+            for (const subscriber of subscription.subscribers) {
+              if (coordinatorOf(subscriber) === follower) {
+                release(subscriber, key);
+              }
+            }
+          }
+        }).catch(() => {
+          // Aborted once this tab stops serving
+        });
+      };
+
+      const unsubscribeRequests = yield* broadcast.subscribe(subscribeKey, (value) => Effect.sync(() => {
+        Option.map(decodeRequest(value), ({ subscriber, ...request }) => {
+          watchFollower(coordinatorOf(subscriber));
+          const existing = subscriptions.get(request.key);
+          if (existing !== undefined) {
+            existing.subscribers.add(subscriber);
+            // The new follower has missed the latest value
+            Option.map(existing.last, ({ encoded, version }) => post(request.key, encoded, version));
+            return;
+          }
+
+          const subscription = {
+            subscribers: new Set([subscriber]),
+            last: Option.none<{ readonly encoded: string; readonly version: number | undefined }>(),
+            stop: () => { }
+          };
+          subscriptions.set(request.key, subscription);
+          subscription.stop = watch(request, (message, version) => {
+            const encoded = encodeMessage(message);
+            subscription.last = Option.some({ encoded, version });
+            post(request.key, encoded, version);
+          });
+        });
+      }));
+
+      const unsubscribeReleases = yield* broadcast.subscribe(releaseKey, (value) => Effect.sync(() => {
+        Option.map(decodeRelease(value), ({ subscriber, key }) => release(subscriber, key));
+      }));
+
+      // Followers subscribed with the previous leader re-subscribe with this one
+      yield* broadcast.post(helloKey, tabId);
+
+      return () => {
+        unsubscribeRequests();
+        unsubscribeReleases();
+        followers.forEach((controller) => controller.abort());
+        followers.clear();
+        subscriptions.forEach((subscription) => subscription.stop());
+        subscriptions.clear();
+      };
+    }),
+
+    follow: Effect.fn("TabCoordinator.follow")(function* (request, listener) {
+      const subscriber = `${coordinatorId}#${++subscriberCount}`;
+      const subscribe = broadcast.post(subscribeKey, encodeRequest({ subscriber, ...request }));
+
+      const unsubscribeResults = yield* broadcast.subscribe(resultKey(request.key), (value) => Effect.sync(() => {
+        Option.map(decodeMessage(value), listener);
+      }));
+      const unsubscribeHello = yield* broadcast.subscribe(helloKey, () => subscribe);
+      yield* subscribe;
+
+      return () => {
+        unsubscribeResults();
+        unsubscribeHello();
+        broadcast.post(releaseKey, encodeRelease({ subscriber, key: request.key })).pipe(Effect.runFork);
+      };
+    })
+  });
+});
+
+/**
+ * Layer providing the tab coordinator of a namespace
+ * @since 0.1.0
+ * @category Layers
+ */
+export const layer = (namespace: string) => Layer.scoped(TabCoordinator, make(namespace));
@@ -0,0 +1,36 @@
+import * as Effect from "effect/Effect";
+import * as Exit from "effect/Exit";
+import * as Option from "effect/Option";
+import { describe, expect, it } from "vitest";
+import * as Telemetry from "./telemetry";
+
+describe("makeMemoryExporter", () => {
+  it("collects the spans that ended, with their parents and attributes", () =>
+    Effect.runPromise(Effect.gen(function* () {
+      const exporter = Telemetry.makeMemoryExporter();
+      yield* Effect.void.pipe(
+        Effect.withSpan("child", { attributes: { "convex.function": "numbers:list" } }),
+        Effect.withSpan("parent"),
+        Effect.provide(exporter.layer)
+      );
+
+      const [child, parent] = yield* exporter.spans;
+      expect(child).toMatchObject({ name: "child", attributes: { "convex.function": "numbers:list" } });
+      expect(child.exit).toEqual(Exit.void);
+      expect(child.parentSpanId).toEqual(Option.some(parent.spanId));
+      expect(child.traceId).toBe(parent.traceId);
+      expect(parent.parentSpanId).toEqual(Option.none());
+    })));
+
+  it("keeps the latest spans only", () =>
+    Effect.runPromise(Effect.gen(function* () {
+      const exporter = Telemetry.makeMemoryExporter({ maxSpans: 2 });
+      for (const name of ["first", "second", "third"]) {
+        yield* Effect.void.pipe(Effect.withSpan(name), Effect.provide(exporter.layer));
+      }
+      expect((yield* exporter.spans).map(({ name }) => name)).toEqual(["second", "third"]);
+
+      yield* exporter.clear;
+      expect(yield* exporter.spans).toEqual([]);
+    })));
+});
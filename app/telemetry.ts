@@ -0,0 +1,247 @@
+import * as Cause from "effect/Cause";
+import * as Duration from "effect/Duration";
+import * as Effect from "effect/Effect";
+import * as Exit from "effect/Exit";
+import * as Layer from "effect/Layer";
+import * as Metric from "effect/Metric";
+import type * as MetricPair from "effect/MetricPair";
+import * as MetricState from "effect/MetricState";
+import * as Option from "effect/Option";
+import type * as Context from "effect/Context";
+import * as Tracer from "effect/Tracer";
+
+/**
+ * Live query subscriptions, to Convex or to the leader tab, tagged with the
+ * query's `function` name
+ * @since 0.1.0
+ * @category Metrics
+ */
+export const activeSubscriptions = Metric.counter("convex_atom_active_subscriptions", {
+  description: "Live query subscriptions, to Convex or to the leader tab"
+});
+
+/**
+ * Query results received from Convex or from the leader tab, tagged with the
+ * query's `function` name
+ * @since 0.1.0
+ * @category Metrics
+ */
+export const queryUpdates = Metric.counter("convex_atom_query_updates", {
+  description: "Query results received from Convex or from the leader tab",
+  incremental: true
+});
+
+/**
+ * Time until mutation calls settle (retries included) in milliseconds, tagged
+ * with the mutation's `function` name
+ * @since 0.1.0
+ * @category Metrics
+ */
+export const mutationDuration = Metric.timerWithBoundaries(
+  "convex_atom_mutation_duration",
+  [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000],
+  "Time until mutation calls settle, retries included"
+);
+
+/**
+ * Reads of the persisted query cache that found a fresh entry
+ * @since 0.1.0
+ * @category Metrics
+ */
+export const cacheHits = Metric.counter("convex_atom_query_cache_hits", {
+  description: "Reads of the persisted query cache that found a fresh entry",
+  incremental: true
+});
+
+/**
+ * Reads of the persisted query cache that found nothing, or an entry that is
+ * expired or from another version
+ * @since 0.1.0
+ * @category Metrics
+ */
+export const cacheMisses = Metric.counter("convex_atom_query_cache_misses", {
+  description: "Reads of the persisted query cache that found no fresh entry",
+  incremental: true
+});
+
+/**
+ * The current state of the metrics above. Metrics are recorded for the whole
+ * page, whether a tracer is installed or not.
+ * @since 0.1.0
+ * @category Metrics
+ */
+export const snapshotMetrics: Effect.Effect<ReadonlyArray<MetricPair.MetricPair.Untyped>> = Metric.snapshot.pipe(
+  Effect.map((pairs) => pairs.filter((pair) => pair.metricKey.name.startsWith("convex_atom_")))
+);
+
+/**
+ * A span as handed to an exporter, once it has ended
+ * @since 0.1.0
+ * @category Models
+ */
+export interface ExportedSpan {
+  readonly name: string;
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId: Option.Option<string>;
+  readonly attributes: Readonly<Record<string, unknown>>;
+  /**
+   * Epoch milliseconds
+   */
+  readonly startTime: number;
+  readonly duration: Duration.Duration;
+  readonly exit: Exit.Exit<unknown, unknown>;
+}
+
+const randomId = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+class RecordingSpan implements Tracer.Span {
+  readonly _tag = "Span";
+  readonly spanId = randomId(8);
+  readonly traceId: string;
+  readonly sampled = true;
+  readonly attributes = new Map<string, unknown>();
+  readonly links: Array<Tracer.SpanLink>;
+  status: Tracer.SpanStatus;
+
+  constructor(
+    readonly name: string,
+    readonly parent: Option.Option<Tracer.AnySpan>,
+    readonly context: Context.Context<never>,
+    links: ReadonlyArray<Tracer.SpanLink>,
+    startTime: bigint,
+    readonly kind: Tracer.SpanKind,
+    private readonly onEnd: (span: ExportedSpan) => void
+  ) {
+    this.traceId = Option.match(parent, { onNone: () => randomId(16), onSome: (parent) => parent.traceId });
+    this.links = [...links];
+    this.status = { _tag: "Started", startTime };
+  }
+
+  end(endTime: bigint, exit: Exit.Exit<unknown, unknown>): void {
+    const startTime = this.status.startTime;
+    this.status = { _tag: "Ended", startTime, endTime, exit };
+    this.onEnd({
+      name: this.name,
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: Option.map(this.parent, (parent) => parent.spanId),
+      attributes: Object.fromEntries(this.attributes),
+      startTime: Number(startTime / BigInt(1_000_000)),
+      duration: Duration.nanos(endTime - startTime),
+      exit
+    });
+  }
+
+  attribute(key: string, value: unknown): void {
+    this.attributes.set(key, value);
+  }
+
+  event(): void {
+    // Events are not exported
+  }
+
+  addLinks(links: ReadonlyArray<Tracer.SpanLink>): void {
+    this.links.push(...links);
+  }
+}
+
+/**
+ * A tracer handing every span to `onEnd` once it ends
+ * @internal
+ */
+const makeExportingTracer = (onEnd: (span: ExportedSpan) => void): Tracer.Tracer =>
+  Tracer.make({
+    span: (name, parent, context, links, startTime, kind) =>
+      new RecordingSpan(name, parent, context, links, startTime, kind, onEnd),
+    context: (f) => f()
+  });
+
+const formatMetricState = (state: MetricState.MetricState.Untyped): string => {
+  if (MetricState.isCounterState(state)) {
+    return String(state.count);
+  }
+  if (MetricState.isHistogramState(state)) {
+    return state.count === 0
+      ? "0 calls"
+      : `${state.count} calls, mean ${(state.sum / state.count).toFixed(1)}ms, max ${state.max.toFixed(1)}ms`;
+  }
+  return String(state);
+};
+
+/**
+ * Logs every span to the console as it ends, and the metrics on an interval
+ * (every 30 seconds by default), for when no tracing backend is configured.
+ * Install it with `telemetryLayerAtom`.
+ * @since 0.1.0
+ * @category Layers
+ */
+export const layerConsoleExporter = (options: { readonly metricsInterval?: Duration.DurationInput } = {}) =>
+  Layer.mergeAll(
+    Layer.setTracer(makeExportingTracer((span) => {
+      const outcome = Exit.match(span.exit, {
+        onSuccess: () => "",
+        onFailure: (cause) => Cause.isInterruptedOnly(cause) ? " (interrupted)" : ` failed: ${Cause.pretty(cause)}`
+      });
+      console.debug(`[convex-atom] ${span.name} ${Duration.toMillis(span.duration).toFixed(1)}ms${outcome}`, span.attributes);
+    })),
+    Layer.scopedDiscard(
+      Effect.sleep(options.metricsInterval ?? Duration.seconds(30)).pipe(
+        Effect.zipRight(snapshotMetrics),
+        Effect.tap((pairs) => Effect.sync(() => console.table(pairs.map((pair) => ({
+          name: pair.metricKey.name,
+          tags: pair.metricKey.tags.map((tag) => `${tag.key}=${tag.value}`).join(", "),
+          value: formatMetricState(pair.metricState)
+        }))))),
+        Effect.forever,
+        Effect.forkScoped
+      )
+    )
+  );
+
+/**
+ * Collects spans in memory, e.g. for tests or a devtools panel, see
+ * `makeMemoryExporter`
+ * @since 0.1.0
+ * @category Models
+ */
+export interface MemoryExporter {
+  /**
+   * Installs the tracer, see `telemetryLayerAtom`
+   */
+  readonly layer: Layer.Layer<never>;
+  /**
+   * The spans that ended, oldest first
+   */
+  readonly spans: Effect.Effect<ReadonlyArray<ExportedSpan>>;
+  readonly metrics: Effect.Effect<ReadonlyArray<MetricPair.MetricPair.Untyped>>;
+  /**
+   * Drops the collected spans, metrics are not reset
+   */
+  readonly clear: Effect.Effect<void>;
+}
+
+/**
+ * Creates an exporter keeping the latest spans in memory (1000 by default)
+ * @since 0.1.0
+ * @category Constructors
+ */
+export const makeMemoryExporter = (options: { readonly maxSpans?: number } = {}): MemoryExporter => {
+  const maxSpans = options.maxSpans ?? 1000;
+  const spans: Array<ExportedSpan> = [];
+
+  return {
+    layer: Layer.setTracer(makeExportingTracer((span) => {
+      spans.push(span);
+      if (spans.length > maxSpans) {
+        spans.splice(0, spans.length - maxSpans);
+      }
+    })),
+    spans: Effect.sync(() => [...spans]),
+    metrics: snapshotMetrics,
+    clear: Effect.sync(() => {
+      spans.length = 0;
+    })
+  };
+};
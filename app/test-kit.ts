@@ -0,0 +1,584 @@
+import * as Registry from "@effect-atom/atom/Registry";
+import type { Atom } from "@effect-atom/atom";
+import * as Effect from "effect/Effect";
+import * as Exit from "effect/Exit";
+import * as Layer from "effect/Layer";
+import * as Option from "effect/Option";
+import type * as Result from "@effect-atom/atom/Result";
+import * as KeyValueStore from "@effect/platform/KeyValueStore";
+import type { ConnectionState, OptimisticLocalStore } from "convex/browser";
+import type { ConvexReactClient, Watch } from "convex/react";
+import { getFunctionName, type FunctionReference } from "convex/server";
+import { convexToJson, type Value } from "convex/values";
+import { storageLayerAtom } from "./convex-atom";
+import * as SubscribeableStorage from "./subscribeable-storage";
+
+/**
+ * A mutation or action call waiting for the test to settle it
+ * @since 0.1.0
+ * @category Models
+ */
+export interface PendingCall {
+  readonly functionName: string;
+  readonly args: Record<string, Value>;
+  readonly resolve: (value: unknown) => void;
+  /**
+   * Fails the call, e.g. with a `ConvexError` for application errors or an
+   * `Error("Connection lost")` for transport errors
+   */
+  readonly reject: (error: unknown) => void;
+}
+
+/**
+ * Answers the calls of one function without the test settling them
+ * @since 0.1.0
+ * @category Models
+ */
+export type CallHandler = (args: Record<string, Value>) => unknown;
+
+/**
+ * @since 0.1.0
+ * @category Models
+ */
+export interface FakeConvexClientOptions {
+  /**
+   * Defaults to a URL of its own: atoms are keyed by deployment URL, so fakes
+   * sharing one would share atoms
+   */
+  readonly url?: string;
+  /**
+   * Whether the client starts connected, `true` by default
+   */
+  readonly connected?: boolean;
+}
+
+type QueryState =
+  | { readonly _tag: "Value"; readonly value: unknown }
+  | { readonly _tag: "Error"; readonly error: unknown };
+
+interface QueryEntry {
+  readonly functionName: string;
+  readonly args: Record<string, Value>;
+}
+
+// Args objects are equal whatever the order of their keys
+const sortKeys = (_: string, value: unknown) =>
+  value !== null && typeof value === "object" && !Array.isArray(value)
+    ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+    : value;
+
+let fakeCount = 0;
+
+const queryKey = (functionName: string, args: Record<string, Value>) =>
+  functionName + JSON.stringify(convexToJson(args), sortKeys);
+
+/**
+ * Scripted, in-memory stand-in for `ConvexReactClient`: the test pushes query
+ * results and failures, settles mutations and actions, and drops or restores
+ * the connection. Hand `client` to the atoms and hooks under test.
+ *
+ * Query results are only what the test set, and optimistic updates apply on
+ * top of them until their mutation settles (they are not replayed on later
+ * results, unlike Convex).
+ *
+ * @since 0.1.0
+ * @category Constructors
+ */
+export class FakeConvexClient {
+  readonly url: string;
+
+  private readonly results = new Map<string, QueryEntry & { readonly state: QueryState }>();
+  private readonly watchers = new Map<string, Set<() => void>>();
+  private readonly optimistic: Array<Map<string, QueryEntry & { readonly value: unknown }>> = [];
+  private readonly pending: Array<PendingCall & { readonly kind: "mutation" | "action" }> = [];
+  private readonly handlers = new Map<string, CallHandler>();
+  private readonly connectionListeners = new Set<(state: ConnectionState) => void>();
+  private connection: Pick<ConnectionState, "isWebSocketConnected" | "hasEverConnected" | "connectionCount" | "connectionRetries">;
+  private changed: Set<string> | undefined;
+  private readonly onReconnect: Array<() => void> = [];
+
+  constructor(options: FakeConvexClientOptions = {}) {
+    this.url = options.url ?? `https://fake-${++fakeCount}.convex.cloud`;
+    const connected = options.connected ?? true;
+    this.connection = {
+      isWebSocketConnected: connected,
+      hasEverConnected: connected,
+      connectionCount: connected ? 1 : 0,
+      connectionRetries: 0
+    };
+  }
+
+  /**
+   * This fake, typed as the client the atoms expect
+   */
+  get client(): ConvexReactClient {
+    return this as unknown as ConvexReactClient;
+  }
+
+  // --- ConvexReactClient ---
+
+  watchQuery<Query extends FunctionReference<"query">>(
+    query: Query,
+    args: Record<string, Value> = {}
+  ): Watch<unknown> {
+    const key = queryKey(getFunctionName(query), args);
+    return {
+      onUpdate: (callback) => {
+        const callbacks = this.watchers.get(key) ?? new Set();
+        this.watchers.set(key, callbacks);
+        callbacks.add(callback);
+        return () => {
+          callbacks.delete(callback);
+          if (callbacks.size === 0) {
+            this.watchers.delete(key);
+          }
+        };
+      },
+      localQueryResult: () => {
+        const optimistic = this.optimisticValue(key);
+        if (Option.isSome(optimistic)) {
+          return optimistic.value;
+        }
+        const state = this.results.get(key)?.state;
+        if (state?._tag === "Error") {
+          throw state.error;
+        }
+        return state?.value;
+      },
+      journal: () => undefined
+    };
+  }
+
+  mutation<Mutation extends FunctionReference<"mutation">>(
+    mutation: Mutation,
+    args: Record<string, Value> = {},
+    options?: { readonly optimisticUpdate?: (localStore: OptimisticLocalStore, args: Record<string, Value>) => void }
+  ): Promise<unknown> {
+    const overlay = new Map<string, QueryEntry & { readonly value: unknown }>();
+    const optimisticUpdate = options?.optimisticUpdate;
+    if (optimisticUpdate !== undefined) {
+      this.optimistic.push(overlay);
+      this.transition(() => optimisticUpdate(this.localStore(overlay), args));
+    }
+    const dropOverlay = () => {
+      const index = this.optimistic.indexOf(overlay);
+      if (index !== -1) {
+        this.optimistic.splice(index, 1);
+        this.transition(() => overlay.forEach((_, key) => this.changed?.add(key)));
+      }
+    };
+    return this.call("mutation", getFunctionName(mutation), args).finally(dropOverlay);
+  }
+
+  action<Action extends FunctionReference<"action">>(action: Action, args: Record<string, Value> = {}): Promise<unknown> {
+    return this.call("action", getFunctionName(action), args);
+  }
+
+  setAuth(
+    fetchToken: (options: { forceRefreshToken: boolean }) => Promise<string | null | undefined>,
+    onChange?: (isAuthenticated: boolean) => void
+  ): void {
+    void fetchToken({ forceRefreshToken: false }).then((token) => onChange?.(token !== null && token !== undefined));
+  }
+
+  clearAuth(): void { }
+
+  connectionState(): ConnectionState {
+    const inflight = this.pending.length > 0;
+    return {
+      ...this.connection,
+      hasInflightRequests: inflight,
+      timeOfOldestInflightRequest: null,
+      inflightMutations: this.pending.filter((call) => call.kind === "mutation").length,
+      inflightActions: this.pending.filter((call) => call.kind === "action").length
+    };
+  }
+
+  subscribeToConnectionState(callback: (state: ConnectionState) => void): () => void {
+    this.connectionListeners.add(callback);
+    return () => {
+      this.connectionListeners.delete(callback);
+    };
+  }
+
+  // --- Scripting ---
+
+  /**
+   * Sets the result of a query, notifying its watchers
+   */
+  setQueryResult<Query extends FunctionReference<"query">>(
+    query: Query,
+    args: Record<string, Value>,
+    value: unknown
+  ): void {
+    this.setState(query, args, { _tag: "Value", value });
+  }
+
+  /**
+   * Fails a query, notifying its watchers: `localQueryResult` throws the error
+   */
+  failQuery<Query extends FunctionReference<"query">>(query: Query, args: Record<string, Value>, error: unknown): void {
+    this.setState(query, args, { _tag: "Error", error });
+  }
+
+  /**
+   * Drops the result of a query, as if the client had just started
+   */
+  forget<Query extends FunctionReference<"query">>(query: Query, args: Record<string, Value> = {}): void {
+    this.results.delete(queryKey(getFunctionName(query), args));
+  }
+
+  /**
+   * Applies several changes at once, like a Convex transition: watchers are
+   * only notified once every change is made
+   */
+  transition(f: () => void): void {
+    if (this.changed !== undefined) {
+      return f();
+    }
+    const changed = new Set<string>();
+    this.changed = changed;
+    try {
+      f();
+    } finally {
+      this.changed = undefined;
+      changed.forEach((key) => [...this.watchers.get(key) ?? []].forEach((callback) => callback()));
+    }
+  }
+
+  /**
+   * How many watchers are subscribed to a query
+   */
+  subscriberCount<Query extends FunctionReference<"query">>(query: Query, args: Record<string, Value> = {}): number {
+    return this.watchers.get(queryKey(getFunctionName(query), args))?.size ?? 0;
+  }
+
+  /**
+   * Answers every call of a mutation or action with the handler, which may
+   * throw or return a promise. Calls made while disconnected are answered
+   * once the client reconnects, as Convex only sends them then.
+   */
+  handle(fn: FunctionReference<"mutation" | "action">, handler: CallHandler): void {
+    this.handlers.set(getFunctionName(fn), handler);
+  }
+
+  /**
+   * Mutation and action calls without a handler, oldest first
+   */
+  get pendingCalls(): ReadonlyArray<PendingCall> {
+    return this.pending;
+  }
+
+  /**
+   * The oldest pending call, of the given function if any
+   */
+  nextCall(fn?: FunctionReference<"mutation" | "action">): PendingCall {
+    const name = fn === undefined ? undefined : getFunctionName(fn);
+    const call = this.pending.find((call) => name === undefined || call.functionName === name);
+    if (call === undefined) {
+      throw new Error(`No pending call${name === undefined ? "" : ` of ${name}`}`);
+    }
+    return call;
+  }
+
+  disconnect(): void {
+    this.setConnection({ ...this.connection, isWebSocketConnected: false });
+  }
+
+  reconnect(): void {
+    this.setConnection({
+      ...this.connection,
+      isWebSocketConnected: true,
+      hasEverConnected: true,
+      connectionCount: this.connection.connectionCount + 1
+    });
+    this.onReconnect.splice(0).forEach((send) => send());
+  }
+
+  private setState<Query extends FunctionReference<"query">>(
+    query: Query,
+    args: Record<string, Value>,
+    state: QueryState
+  ) {
+    const functionName = getFunctionName(query);
+    const key = queryKey(functionName, args);
+    this.transition(() => {
+      this.results.set(key, { functionName, args, state });
+      this.changed?.add(key);
+    });
+  }
+
+  private setConnection(connection: FakeConvexClient["connection"]) {
+    this.connection = connection;
+    const state = this.connectionState();
+    this.connectionListeners.forEach((listener) => listener(state));
+  }
+
+  private optimisticValue(key: string): Option.Option<unknown> {
+    for (let i = this.optimistic.length - 1; i >= 0; i--) {
+      const entry = this.optimistic[i].get(key);
+      if (entry !== undefined) {
+        return Option.some(entry.value);
+      }
+    }
+    return Option.none();
+  }
+
+  private readValue(key: string): unknown {
+    return Option.getOrElse(this.optimisticValue(key), () => {
+      const state = this.results.get(key)?.state;
+      return state?._tag === "Value" ? state.value : undefined;
+    });
+  }
+
+  private localStore(overlay: Map<string, QueryEntry & { readonly value: unknown }>): OptimisticLocalStore {
+    const store = {
+      getQuery: (query: FunctionReference<"query">, args?: Record<string, Value>) =>
+        this.readValue(queryKey(getFunctionName(query), args ?? {})),
+      getAllQueries: (query: FunctionReference<"query">) => {
+        const functionName = getFunctionName(query);
+        const entries = new Map<string, QueryEntry>();
+        for (const [key, entry] of this.results) {
+          entries.set(key, entry);
+        }
+        for (const layer of this.optimistic) {
+          for (const [key, entry] of layer) {
+            entries.set(key, entry);
+          }
+        }
+        return [...entries]
+          .filter(([, entry]) => entry.functionName === functionName)
+          .map(([key, entry]) => ({ args: entry.args, value: this.readValue(key) }));
+      },
+      setQuery: (query: FunctionReference<"query">, args: Record<string, Value>, value: unknown) => {
+        const functionName = getFunctionName(query);
+        const key = queryKey(functionName, args);
+        overlay.set(key, { functionName, args, value });
+        this.changed?.add(key);
+      }
+    };
+    return store as unknown as OptimisticLocalStore;
+  }
+
+  private call(kind: "mutation" | "action", functionName: string, args: Record<string, Value>): Promise<unknown> {
+    const handler = this.handlers.get(functionName);
+    if (handler !== undefined) {
+      return new Promise((resolve, reject) => {
+        const send = () => {
+          try {
+            resolve(handler(args));
+          } catch (error) {
+            reject(error);
+          }
+        };
+        if (this.connection.isWebSocketConnected) {
+          send();
+        } else {
+          this.onReconnect.push(send);
+        }
+      });
+    }
+    return new Promise((resolve, reject) => {
+      const call = {
+        kind,
+        functionName,
+        args,
+        resolve: (value: unknown) => settle(() => resolve(value)),
+        reject: (error: unknown) => settle(() => reject(error))
+      };
+      const settle = (f: () => void) => {
+        const index = this.pending.indexOf(call);
+        if (index !== -1) {
+          this.pending.splice(index, 1);
+          f();
+        }
+      };
+      this.pending.push(call);
+    });
+  }
+}
+
+/**
+ * In-memory storage backend: every build of the layer is one simulated tab,
+ * reading and writing the same entries, and receiving what the other tabs
+ * broadcast (over a BroadcastChannel of its own).
+ * @since 0.1.0
+ * @category Layers
+ */
+export const makeMemoryStorage = (): Layer.Layer<
+  KeyValueStore.KeyValueStore | SubscribeableStorage.StorageBroadcast | SubscribeableStorage.StorageKeys
+> => {
+  const entries = new Map<string, string>();
+  const channel = `@convex-atom/test/${crypto.randomUUID()}`;
+
+  return Layer.mergeAll(
+    Layer.sync(KeyValueStore.KeyValueStore, () => KeyValueStore.makeStringOnly({
+      get: (key) => Effect.sync(() => Option.fromNullable(entries.get(key))),
+      set: (key, value) => Effect.sync(() => {
+        entries.set(key, value);
+      }),
+      remove: (key) => Effect.sync(() => {
+        entries.delete(key);
+      }),
+      clear: Effect.sync(() => entries.clear()),
+      size: Effect.sync(() => entries.size)
+    })),
+    Layer.succeed(SubscribeableStorage.StorageKeys, SubscribeableStorage.StorageKeys.of({
+      list: (prefix) => Effect.sync(() => [...entries.keys()].filter((key) => key.startsWith(prefix)))
+    })),
+    Layer.scoped(
+      SubscribeableStorage.StorageBroadcast,
+      Effect.suspend(() => SubscribeableStorage.makeStorageBroadcast(channel, crypto.randomUUID()))
+    )
+  );
+};
+
+/**
+ * In-memory stand-in for the Web Locks API, which Node lacks: exclusive locks
+ * granted in the order they were requested, with `ifAvailable` and `signal`.
+ * Install it with `vi.stubGlobal("navigator", { locks: new FakeLockManager() })`,
+ * every tab of a test shares it like the tabs of a browser do.
+ * @since 0.1.0
+ * @category Constructors
+ */
+export class FakeLockManager {
+  private readonly held = new Set<string>();
+  private readonly queues = new Map<string, Array<() => void>>();
+
+  request(
+    name: string,
+    optionsOrCallback: LockOptions | LockGrantedCallback<unknown>,
+    callback?: LockGrantedCallback<unknown>
+  ): Promise<unknown> {
+    const [options, granted] = typeof optionsOrCallback === "function"
+      ? [{} as LockOptions, optionsOrCallback]
+      : [optionsOrCallback, callback!];
+    const queue = this.queues.get(name) ?? [];
+    this.queues.set(name, queue);
+
+    return new Promise((resolve, reject) => {
+      const grant = () => {
+        options.signal?.removeEventListener("abort", abort);
+        this.held.add(name);
+        // Released once the callback's promise settles, like Web Locks
+        Promise.resolve().then(() => granted({ name, mode: "exclusive" })).then(resolve, reject).finally(() => {
+          this.held.delete(name);
+          queue.shift()?.();
+        });
+      };
+      const abort = () => {
+        queue.splice(queue.indexOf(grant), 1);
+        reject(options.signal?.reason);
+      };
+
+      if (options.signal?.aborted) {
+        reject(options.signal.reason);
+      } else if (!this.held.has(name) && queue.length === 0) {
+        grant();
+      } else if (options.ifAvailable) {
+        Promise.resolve().then(() => granted(null)).then(resolve, reject);
+      } else {
+        queue.push(grant);
+        options.signal?.addEventListener("abort", abort);
+      }
+    });
+  }
+}
+
+/**
+ * Creates a registry to drive atoms with, persisting to the given storage
+ * backend (nothing is persisted without one). Atoms without a lifetime are
+ * disposed `defaultIdleTTL` milliseconds after they are unmounted, if given.
+ * @since 0.1.0
+ * @category Constructors
+ */
+export const makeRegistry = (options: {
+  readonly storage?: SubscribeableStorage.StorageLayer;
+  readonly initialValues?: Iterable<readonly [Atom.Atom<unknown>, unknown]>;
+  readonly defaultIdleTTL?: number;
+} = {}): Registry.Registry =>
+  Registry.make({
+    initialValues: [[storageLayerAtom, Option.fromNullable(options.storage)], ...(options.initialValues ?? [])],
+    defaultIdleTTL: options.defaultIdleTTL
+  });
+
+/**
+ * Waits for the value of an atom to satisfy the predicate, mounting the atom
+ * meanwhile. Rejects once the timeout (a second by default) is up.
+ * @since 0.1.0
+ * @category Utils
+ */
+export function waitFor<A, B extends A>(
+  registry: Registry.Registry,
+  atom: Atom.Atom<A>,
+  refinement: (value: A) => value is B,
+  options?: { readonly timeout?: number }
+): Promise<B>;
+export function waitFor<A>(
+  registry: Registry.Registry,
+  atom: Atom.Atom<A>,
+  predicate: (value: A) => boolean,
+  options?: { readonly timeout?: number }
+): Promise<A>;
+export function waitFor<A>(
+  registry: Registry.Registry,
+  atom: Atom.Atom<A>,
+  predicate: (value: A) => boolean,
+  options: { readonly timeout?: number } = {}
+): Promise<A> {
+  return new Promise((resolve, reject) => {
+    let unsubscribe = () => { };
+    const timer = setTimeout(() => {
+      unsubscribe();
+      reject(new Error(`Timed out waiting for ${atom.label?.[0] ?? "an atom"}`));
+    }, options.timeout ?? 1000);
+    unsubscribe = registry.subscribe(atom, (value) => {
+      if (predicate(value)) {
+        clearTimeout(timer);
+        queueMicrotask(() => unsubscribe());
+        resolve(value);
+      }
+    }, { immediate: true });
+  });
+}
+
+/**
+ * Waits for a result atom to settle (neither initial nor waiting) and returns
+ * its `Exit`
+ * @since 0.1.0
+ * @category Utils
+ */
+export const awaitResult = <A, E>(
+  registry: Registry.Registry,
+  atom: Atom.Atom<Result.Result<A, E>>,
+  options?: { readonly timeout?: number }
+): Promise<Exit.Exit<A, E>> =>
+  waitFor(registry, atom, (result) => result._tag !== "Initial" && !result.waiting, options).then((result) =>
+    result._tag === "Success" ? Exit.succeed(result.value) : result._tag === "Failure" ? Exit.failCause(result.cause) : Exit.die(result)
+  );
+
+/**
+ * Lets pending callbacks, microtasks and broadcasts run. BroadcastChannel
+ * messages aren't ordered with timers, and relays between tabs take a few
+ * hops, so this waits a little longer than a single timer turn.
+ * @since 0.1.0
+ * @category Utils
+ */
+export const flush = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 10));
+
+/**
+ * Waits for a condition outside of atoms (e.g. that a broadcast arrived) to
+ * hold, checking it after every flush. Rejects once the timeout (a second by
+ * default) is up.
+ * @since 0.1.0
+ * @category Utils
+ */
+export const eventually = async (condition: () => boolean, options: { readonly timeout?: number } = {}): Promise<void> => {
+  const deadline = Date.now() + (options.timeout ?? 1000);
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for a condition");
+    }
+    await flush();
+  }
+};
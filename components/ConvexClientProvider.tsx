@@ -3,6 +3,7 @@
 import { ReactNode } from "react";
 import { ConvexProvider, ConvexReactClient } from "convex/react";
 import { RegistryProvider } from "@effect-atom/atom-react";
+import { ConvexAtomDevtools } from "@/app/components/ConvexAtomDevtools";
 
 const convex = new ConvexReactClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
 
@@ -13,8 +14,10 @@ export default function ConvexClientProvider({
 }) {
   return (
     <ConvexProvider client={convex}>
-      <RegistryProvider>
+      {/* Query atoms nobody reads for 30 seconds drop their subscriptions */}
+      <RegistryProvider defaultIdleTTL={30_000}>
         {children}
+        {process.env.NODE_ENV === "development" && <ConvexAtomDevtools />}
       </RegistryProvider>
     </ConvexProvider>
   );
@@ -13,7 +13,9 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as effect from "../effect.js";
 import type * as myFunctions from "../myFunctions.js";
+import type * as schemas from "../schemas.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -24,7 +26,9 @@ import type * as myFunctions from "../myFunctions.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  effect: typeof effect;
   myFunctions: typeof myFunctions;
+  schemas: typeof schemas;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
@@ -0,0 +1,69 @@
+import { query, mutation, action, type QueryCtx, type MutationCtx, type ActionCtx } from "./_generated/server";
+import type { ObjectType, PropertyValidators } from "convex/values";
+import * as Effect from "effect/Effect";
+import type * as Exit from "effect/Exit";
+import * as Schema from "effect/Schema";
+
+// Builders for Convex functions whose handlers are Effects.
+// The handler's Exit is encoded with a schema shared with the client (see
+// `exitSchema` in ./schemas), so typed failures survive the trip instead of
+// surfacing as opaque thrown errors.
+
+const encodeExit = <A, E, I>(schema: Schema.Schema<Exit.Exit<A, E>, I>) =>
+  (effect: Effect.Effect<A, E>): Promise<I> =>
+    effect.pipe(
+      Effect.exit,
+      Effect.flatMap(Schema.encode(schema)),
+      Effect.runPromise,
+    );
+
+/**
+ * Defines a public query whose handler is an Effect.
+ */
+export const effectQuery = <Args extends PropertyValidators, A, E, I>({
+  args,
+  exit,
+  handler,
+}: {
+  readonly args: Args;
+  readonly exit: Schema.Schema<Exit.Exit<A, E>, I>;
+  readonly handler: (ctx: QueryCtx, args: ObjectType<Args>) => Effect.Effect<A, E>;
+}) =>
+  query({
+    args,
+    handler: (ctx, args: ObjectType<Args>) => handler(ctx, args).pipe(encodeExit(exit)),
+  });
+
+/**
+ * Defines a public mutation whose handler is an Effect.
+ */
+export const effectMutation = <Args extends PropertyValidators, A, E, I>({
+  args,
+  exit,
+  handler,
+}: {
+  readonly args: Args;
+  readonly exit: Schema.Schema<Exit.Exit<A, E>, I>;
+  readonly handler: (ctx: MutationCtx, args: ObjectType<Args>) => Effect.Effect<A, E>;
+}) =>
+  mutation({
+    args,
+    handler: (ctx, args: ObjectType<Args>) => handler(ctx, args).pipe(encodeExit(exit)),
+  });
+
+/**
+ * Defines a public action whose handler is an Effect.
+ */
+export const effectAction = <Args extends PropertyValidators, A, E, I>({
+  args,
+  exit,
+  handler,
+}: {
+  readonly args: Args;
+  readonly exit: Schema.Schema<Exit.Exit<A, E>, I>;
+  readonly handler: (ctx: ActionCtx, args: ObjectType<Args>) => Effect.Effect<A, E>;
+}) =>
+  action({
+    args,
+    handler: (ctx, args: ObjectType<Args>) => handler(ctx, args).pipe(encodeExit(exit)),
+  });
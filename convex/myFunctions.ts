@@ -1,47 +1,39 @@
 import { v } from "convex/values";
-import { query, mutation, action } from "./_generated/server";
+import { mutation, action } from "./_generated/server";
 import { api } from "./_generated/api";
 import * as Effect from "effect/Effect"
 import * as Option from "effect/Option";
-import * as Schema from "effect/Schema";
-import { ParseError } from "effect/ParseResult";
-import * as Exit from "effect/Exit";
+import { effectQuery } from "./effect";
+import { ListNumbersExit, NumbersQueryError } from "./schemas";
 
 // Write your Convex functions in any file inside this directory (`convex`).
 // See https://docs.convex.dev/functions for more.
 
-type ExtractExit<T> = T extends Exit.Exit<infer A, infer B> ? Effect.Effect<
-  Exit.Exit<A, Schema.CauseEncoded<B, never>>,
-  ParseError,
-  never
-> : never
-const encodeTransparent = <T extends Exit.Exit<unknown, unknown>>(self: T) =>
-  Schema.encodeUnknown(Schema.Exit({ defect: Schema.Any, failure: Schema.Any, success: Schema.Any }))(self) as ExtractExit<T>
-
-
-
-
-
-
 // You can read data from the database via a query:
-export const listNumbers = query({
+export const listNumbers = effectQuery({
   // Validators for arguments.
   args: {
     count: v.number(),
   },
 
+  // How the handler's Exit is sent to the client, shared with the frontend.
+  exit: ListNumbersExit,
+
   // Query implementation.
   handler: (ctx, args) => Effect.gen(function* () {
-    const numbersEffect = Effect.tryPromise(() => ctx.db
-      .query("numbers")
-      // Ordered by _creationTime, return most recent
-      .order("desc")
-      .take(args.count))
-
-    // throw "OOOOOPS"
-
-    const userNameEffect = Effect.tryPromise(() => ctx.auth.getUserIdentity())
-      .pipe(Effect.map(id => Option.fromNullable(id?.name)))
+    const numbersEffect = Effect.tryPromise({
+      try: () => ctx.db
+        .query("numbers")
+        // Ordered by _creationTime, return most recent
+        .order("desc")
+        .take(args.count),
+      catch: () => new NumbersQueryError({ message: "Failed to read numbers" }),
+    })
+
+    const userNameEffect = Effect.tryPromise({
+      try: () => ctx.auth.getUserIdentity(),
+      catch: () => new NumbersQueryError({ message: "Failed to read the viewer" }),
+    }).pipe(Effect.map(id => Option.fromNullable(id?.name)))
 
     return yield* Effect.all([numbersEffect, userNameEffect]).pipe(
       Effect.map(([numbersResult, userNameResult]) => ({
@@ -49,11 +41,7 @@ export const listNumbers = query({
         numbers: numbersResult.reverse().map((number) => number.value),
       })),
     )
-  }).pipe(
-    //Effect.exit,
-    //Effect.flatMap(exit => encodeTransparent(exit)),
-    Effect.runPromise,
-  )
+  })
 });
 
 // You can write data to the database via a mutation:
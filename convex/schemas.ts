@@ -0,0 +1,29 @@
+import * as Schema from "effect/Schema";
+
+// Schemas shared by the Convex functions and the client that calls them.
+// Keep this module free of server imports so the client can bundle it.
+
+/**
+ * Builds the schema an Effect function's `Exit` travels over the wire with.
+ * Pass the same value to the function builder in ./effect and to the client hooks.
+ */
+export const exitSchema = <A, AI, E, EI>({
+  success,
+  failure,
+}: {
+  readonly success: Schema.Schema<A, AI>;
+  readonly failure: Schema.Schema<E, EI>;
+}) => Schema.Exit({ success, failure, defect: Schema.Defect });
+
+export class NumbersQueryError extends Schema.TaggedError<NumbersQueryError>()(
+  "NumbersQueryError",
+  { message: Schema.String },
+) { }
+
+export const ListNumbersExit = exitSchema({
+  success: Schema.Struct({
+    viewer: Schema.Option(Schema.String),
+    numbers: Schema.Array(Schema.Number),
+  }),
+  failure: NumbersQueryError,
+});